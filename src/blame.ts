@@ -0,0 +1,121 @@
+import { simpleGit } from 'simple-git';
+
+import { getSqliteDb } from './db.js';
+import { resolveRepoPath } from './util.js';
+
+export interface BlameInfo {
+  /** Commit that last changed the line. */
+  sha: string;
+  author: string;
+  email: string;
+  authoredMs: number;
+  /** First line of the commit message. */
+  summary: string;
+}
+
+interface FileBlame {
+  commits: Record<string, Omit<BlameInfo, 'sha'>>;
+  /** Commit of each line; line n is at index n - 1. */
+  lines: Array<string | null>;
+}
+
+const PORCELAIN_HEADER = /^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/;
+const UNCOMMITTED_SHA = /^0+$/;
+
+/**
+ * Parse `git blame --porcelain`. Commit details are only printed the first
+ * time a commit appears, so they are collected into a table keyed by SHA.
+ */
+function parsePorcelain(output: string): FileBlame {
+  const blame: FileBlame = { commits: {}, lines: [] };
+  let sha: string | null = null;
+
+  for (const line of output.split('\n')) {
+    const header = PORCELAIN_HEADER.exec(line);
+    if (header) {
+      sha = header[1];
+      blame.lines[Number(header[2]) - 1] = UNCOMMITTED_SHA.test(sha) ? null : sha;
+      blame.commits[sha] ??= { author: '', email: '', authoredMs: 0, summary: '' };
+      continue;
+    }
+    if (!sha || line.startsWith('\t')) {
+      continue;
+    }
+
+    const space = line.indexOf(' ');
+    const key = space === -1 ? line : line.slice(0, space);
+    const value = space === -1 ? '' : line.slice(space + 1);
+    const commit = blame.commits[sha];
+    switch (key) {
+      case 'author':
+        commit.author = value;
+        break;
+      case 'author-mail':
+        commit.email = value.replace(/^<|>$/g, '');
+        break;
+      case 'author-time':
+        commit.authoredMs = Number(value) * 1000;
+        break;
+      case 'summary':
+        commit.summary = value;
+        break;
+    }
+  }
+
+  return blame;
+}
+
+/**
+ * Last-change commit for every line of a file, worked out from the local
+ * clone at the indexed commit. Results are cached per file until the
+ * repository moves to another commit.
+ *
+ * Returns null when the repository has no git clone (it was indexed from a
+ * local directory) or the file is not tracked by git.
+ */
+export async function blameFile(repo: string, filePath: string): Promise<Array<BlameInfo | null> | null> {
+  const db = await getSqliteDb();
+  const head = (db.prepare('SELECT commit_sha FROM repo_index WHERE repo = ?').get(repo) as { commit_sha: string | null } | undefined)
+    ?.commit_sha;
+  if (!head) {
+    return null;
+  }
+
+  const cached = db
+    .prepare('SELECT commit_sha, blame FROM blame_cache WHERE repo = ? AND path = ?')
+    .get(repo, filePath) as { commit_sha: string; blame: string } | undefined;
+
+  let blame: FileBlame;
+  if (cached?.commit_sha === head) {
+    blame = JSON.parse(cached.blame) as FileBlame;
+  } else {
+    let output: string;
+    try {
+      output = await simpleGit(resolveRepoPath(repo)).raw(['blame', '--porcelain', head, '--', filePath]);
+    } catch {
+      return null;
+    }
+    blame = parsePorcelain(output);
+    db.prepare(`
+      INSERT INTO blame_cache (repo, path, commit_sha, blame)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(repo, path) DO UPDATE SET commit_sha = excluded.commit_sha, blame = excluded.blame
+    `).run(repo, filePath, head, JSON.stringify(blame));
+  }
+
+  return Array.from(blame.lines, (sha) => (sha ? { sha, ...blame.commits[sha] } : null));
+}
+
+/**
+ * Set `blame` on each match to the commit that last changed its line, or null
+ * when blame is not available.
+ */
+export async function attachBlame(repo: string, filePath: string, matches: Array<{ line: number; blame?: BlameInfo | null }>): Promise<void> {
+  if (!matches.length) {
+    return;
+  }
+  const blame = await blameFile(repo, filePath);
+  for (const match of matches) {
+    match.blame = blame?.[match.line - 1] ?? null;
+  }
+}
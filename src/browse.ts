@@ -0,0 +1,278 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { attachBlame, blameFile, type BlameInfo } from './blame.js';
+import { getSqliteDb, listRepoIndex } from './db.js';
+import { escapeLikePattern, globToSqlPattern, parseRepoPath, resolveRepoPath } from './util.js';
+
+export interface LsEntry {
+  repo: string;
+  path: string;
+  name: string;
+  type: 'repo' | 'directory' | 'file';
+}
+
+export interface LsOptions {
+  ignore?: string[];
+}
+
+export interface GlobOptions {
+  repo?: string;
+  limit?: number;
+}
+
+export interface GlobMatch {
+  repo: string;
+  path: string;
+}
+
+export interface ReadOptions {
+  offset?: number;
+  limit?: number;
+  /** Annotate each line with the commit that last changed it. */
+  blame?: boolean;
+}
+
+export interface ReadResult {
+  repo: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  lines: string[];
+  /** With `blame`: last-change commit of each entry in `lines` (null for uncommitted lines). */
+  blame?: Array<BlameInfo | null>;
+}
+
+export interface GrepOptions {
+  repo?: string;
+  ignoreCase?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+  type?: string;
+  /** Stop after this many matching lines (or files, with `filesOnly`). */
+  limit?: number;
+  /** Only report which files match, without collecting their lines. */
+  filesOnly?: boolean;
+  /** Attach the commit that last changed each matching line. */
+  withBlame?: boolean;
+}
+
+export interface GrepMatch {
+  repo: string;
+  path: string;
+  line: number;
+  column: number;
+  endColumn: number;
+  text: string;
+  before: string[];
+  after: string[];
+  /** With `withBlame`: last-change commit of the line, or null when the repository has no git clone. */
+  blame?: BlameInfo | null;
+}
+
+export interface GrepFileResult {
+  repo: string;
+  path: string;
+  count: number;
+  matches: GrepMatch[];
+}
+
+/**
+ * List the immediate entries of `repo` or `repo/dir`, or every repository when no path is given.
+ * Directories are reported with a trailing slash in `name`.
+ */
+export async function listDirectory(pathArg?: string, options: LsOptions = {}): Promise<LsEntry[]> {
+  if (!pathArg) {
+    const repos = await listRepoIndex();
+    return repos.map((row) => ({ repo: row.repo, path: '', name: `${row.repo}/`, type: 'repo' }));
+  }
+
+  const { repo, path: rawDirPath } = parseRepoPath(pathArg);
+  if (!repo) {
+    throw new Error('Invalid path format. Use: repo or repo/path');
+  }
+
+  const dirPath = rawDirPath.replace(/\/+$/, '');
+  const db = await getSqliteDb();
+  const searchPath = dirPath ? `${dirPath}/` : '';
+  const files = db
+    .prepare("SELECT path FROM file_meta WHERE repo = ? AND path LIKE ? ESCAPE '\\' ORDER BY path")
+    .all(repo, `${escapeLikePattern(searchPath)}%`) as Array<{ path: string }>;
+
+  // Group by immediate subdirectory or file
+  const entries = new Map<string, LsEntry>();
+  const ignorePatterns = options.ignore ?? [];
+
+  for (const file of files) {
+    if (!file.path.startsWith(searchPath)) {
+      continue;
+    }
+    const relativePath = file.path.slice(searchPath.length);
+
+    // Simple glob matching (could be improved)
+    if (ignorePatterns.some((pattern) => relativePath.includes(pattern.replace(/\*/g, '')))) {
+      continue;
+    }
+
+    const slashIndex = relativePath.indexOf('/');
+    if (slashIndex === -1) {
+      entries.set(relativePath, { repo, path: file.path, name: relativePath, type: 'file' });
+    } else {
+      const subdir = relativePath.slice(0, slashIndex);
+      entries.set(`${subdir}/`, { repo, path: `${searchPath}${subdir}`, name: `${subdir}/`, type: 'directory' });
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+export async function globFiles(pattern: string, options: GlobOptions = {}): Promise<GlobMatch[]> {
+  const db = await getSqliteDb();
+  const sqlPattern = globToSqlPattern(pattern);
+
+  const params: Array<string | number> = [sqlPattern, sqlPattern];
+  let sql = "SELECT repo, path FROM file_meta WHERE (path LIKE ? ESCAPE '\\' OR filename LIKE ? ESCAPE '\\')";
+
+  if (options.repo) {
+    sql += ' AND repo = ?';
+    params.push(options.repo);
+  }
+
+  sql += ' ORDER BY mtime_ms DESC';
+
+  if (options.limit) {
+    sql += ' LIMIT ?';
+    params.push(options.limit);
+  }
+
+  return db.prepare(sql).all(...params) as GlobMatch[];
+}
+
+/**
+ * Read an indexed file from the local cache. Returns null when the file is not in the index.
+ * `offset` is a 1-based line number. Throws when `blame` is requested for a repository
+ * without a git clone.
+ */
+export async function readIndexedFile(repo: string, filePath: string, options: ReadOptions = {}): Promise<ReadResult | null> {
+  const db = await getSqliteDb();
+  const fileRecord = db
+    .prepare('SELECT repo, path FROM file_meta WHERE repo = ? AND path = ?')
+    .get(repo, filePath) as { repo: string; path: string } | undefined;
+
+  if (!fileRecord) {
+    return null;
+  }
+
+  const content = await fs.readFile(path.join(resolveRepoPath(repo), filePath), 'utf-8');
+  const lines = content.split('\n');
+  const offset = Math.max(1, options.offset ?? 1);
+  const limit = options.limit ?? lines.length;
+  const startLine = offset - 1;
+  const endLine = Math.min(lines.length, startLine + limit);
+
+  const result: ReadResult = {
+    repo,
+    path: filePath,
+    startLine: offset,
+    endLine,
+    totalLines: lines.length,
+    lines: lines.slice(startLine, endLine)
+  };
+
+  if (options.blame) {
+    const blame = await blameFile(repo, filePath);
+    if (!blame) {
+      throw new Error(`No blame for ${repo}/${filePath}: only files tracked in repositories cloned with \`add\` can be blamed`);
+    }
+    result.blame = result.lines.map((_line, index) => blame[startLine + index] ?? null);
+  }
+
+  return result;
+}
+
+/**
+ * Search indexed files line by line with a regular expression, like `grep -n`.
+ * Throws when the pattern is not a valid regular expression.
+ */
+export async function grepFiles(pattern: string, options: GrepOptions = {}): Promise<GrepFileResult[]> {
+  const regex = new RegExp(pattern, options.ignoreCase ? 'gi' : 'g');
+  const contextBefore = Math.max(0, options.contextBefore ?? 0);
+  const contextAfter = Math.max(0, options.contextAfter ?? 0);
+  const limit = options.limit ?? Number.MAX_SAFE_INTEGER;
+
+  const db = await getSqliteDb();
+  const filters: string[] = [];
+  const params: string[] = [];
+
+  if (options.repo) {
+    filters.push('repo = ?');
+    params.push(options.repo);
+  }
+
+  if (options.type) {
+    filters.push("filename LIKE ? ESCAPE '\\'");
+    params.push(`%.${escapeLikePattern(options.type)}`);
+  }
+
+  const sql = `SELECT repo, path FROM file_meta${filters.length ? ` WHERE ${filters.join(' AND ')}` : ''} ORDER BY repo, path`;
+  const files = db.prepare(sql).all(...params) as Array<{ repo: string; path: string }>;
+
+  const results: GrepFileResult[] = [];
+  let collected = 0;
+
+  for (const file of files) {
+    if (collected >= limit) {
+      break;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(resolveRepoPath(file.repo), file.path), 'utf-8');
+    } catch {
+      // File not found on disk, skip
+      continue;
+    }
+
+    const lines = content.split('\n');
+    const matches: GrepMatch[] = [];
+    let count = 0;
+
+    for (let i = 0; i < lines.length; i += 1) {
+      regex.lastIndex = 0;
+      const match = regex.exec(lines[i]);
+      if (!match) {
+        continue;
+      }
+
+      count += 1;
+      if (options.filesOnly || collected + matches.length >= limit) {
+        continue;
+      }
+
+      matches.push({
+        repo: file.repo,
+        path: file.path,
+        line: i + 1,
+        column: match.index + 1,
+        endColumn: match.index + match[0].length + 1,
+        text: lines[i],
+        before: lines.slice(Math.max(0, i - contextBefore), i),
+        after: lines.slice(i + 1, Math.min(lines.length, i + 1 + contextAfter))
+      });
+    }
+
+    if (count === 0) {
+      continue;
+    }
+
+    if (options.withBlame) {
+      await attachBlame(file.repo, file.path, matches);
+    }
+
+    results.push({ repo: file.repo, path: file.path, count, matches });
+    collected += options.filesOnly ? 1 : matches.length;
+  }
+
+  return results;
+}
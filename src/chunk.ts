@@ -0,0 +1,97 @@
+export const CHUNK_MAX_LINES = 40;
+export const CHUNK_OVERLAP_LINES = 10;
+export const CHUNK_MAX_CHARS = 1500;
+/** Characters per full-text segment of a file. */
+export const FTS_SEGMENT_CHARS = 64 * 1024;
+
+export interface ChunkOptions {
+  maxLines?: number;
+  overlapLines?: number;
+  maxChars?: number;
+}
+
+export interface TextChunk {
+  index: number;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface TextSegment {
+  startLine: number;
+  text: string;
+}
+
+/**
+ * Split text into overlapping line-based chunks.
+ * Line numbers are 1-based and inclusive. A chunk ends early once it reaches
+ * `maxChars` so dense files (minified code, long lines) stay within the model window.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxLines = Math.max(1, options.maxLines ?? CHUNK_MAX_LINES);
+  const overlapLines = Math.min(Math.max(0, options.overlapLines ?? CHUNK_OVERLAP_LINES), maxLines - 1);
+  const maxChars = Math.max(1, options.maxChars ?? CHUNK_MAX_CHARS);
+
+  const lines = text.split('\n');
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let chars = 0;
+    while (end < lines.length && end - start < maxLines) {
+      chars += lines[end].length + 1;
+      end += 1;
+      if (chars >= maxChars) {
+        break;
+      }
+    }
+
+    const chunkLines = lines.slice(start, end);
+    if (chunkLines.some((line) => line.trim().length > 0)) {
+      chunks.push({
+        index: chunks.length,
+        startLine: start + 1,
+        endLine: end,
+        text: chunkLines.join('\n').slice(0, maxChars)
+      });
+    }
+
+    if (end >= lines.length) {
+      break;
+    }
+    // Always advance by at least one line, even when the overlap covers the whole chunk
+    start = Math.max(start + 1, end - overlapLines);
+  }
+
+  if (!chunks.length) {
+    chunks.push({ index: 0, startLine: 1, endLine: Math.max(1, lines.length), text });
+  }
+
+  return chunks;
+}
+
+/**
+ * Split text into consecutive runs of whole lines of at most `maxChars`, for
+ * the full-text index; a longer line gets a segment of its own. Segments keep
+ * their line breaks, so joining them restores the text.
+ */
+export function segmentText(text: string, maxChars: number = FTS_SEGMENT_CHARS): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let start = 0;
+  let startLine = 1;
+
+  while (start < text.length) {
+    let end = Math.min(text.length, start + maxChars);
+    if (end < text.length) {
+      const lastBreak = text.lastIndexOf('\n', end - 1);
+      end = lastBreak >= start ? lastBreak + 1 : text.indexOf('\n', end) + 1 || text.length;
+    }
+    const segment = text.slice(start, end);
+    segments.push({ startLine, text: segment });
+    startLine += segment.split('\n').length - 1;
+    start = end;
+  }
+
+  return segments.length ? segments : [{ startLine: 1, text: '' }];
+}
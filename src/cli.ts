@@ -3,17 +3,54 @@ import { Command } from 'commander';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import process from 'node:process';
+import readline from 'node:readline/promises';
 import { fileURLToPath } from 'node:url';
 
-import { addRepository, indexRepository } from './indexer.js';
-import { search, type SearchMode } from './search.js';
-import { listRepoIndex, getSqliteDb } from './db.js';
-import { 
-  ensureDataLayout, 
-  safeRepoNameFromPath, 
+import { globFiles, grepFiles, listDirectory, readIndexedFile, type GlobMatch, type GrepFileResult, type LsEntry, type ReadResult } from './browse.js';
+import type { BlameInfo } from './blame.js';
+import { callServer, findRunningServer } from './client.js';
+import { getEmbeddingCacheStats, pruneEmbeddingCache } from './embed-cache.js';
+import {
+  SETTINGS,
+  SETTING_KEYS,
+  embeddingConfigFrom,
+  globalConfigPath,
+  parseSetting,
+  resolveConfig,
+  settingValues,
+  writeSetting,
+  type ResolvedSetting,
+  type SettingKey,
+  type Settings
+} from './config.js';
+import { EMBEDDING_PROVIDERS, describeEmbedding, embeddingDifferences, setEmbeddingConfig } from './embed.js';
+import { addRepository, indexRepository, pinRepository, reembedIndex, removeRepository, syncRepositories, type IndexSummary } from './indexer.js';
+import { startMcpServer } from './mcp.js';
+import { findReferences, type SymbolReference } from './references.js';
+import { parseSince, searchHistory, type CommitResult, type LogOptions } from './history.js';
+import { SYMBOL_KINDS, findDefinitions, findSymbols, type SymbolKind, type SymbolRecord } from './symbols.js';
+import { emitRecord, emitRecords, isMachineOutput, setOutputFormat, toErrorRecord } from './output.js';
+import {
+  DEFAULT_FUSION,
+  DEFAULT_KEYWORD_WEIGHT,
+  DEFAULT_SEMANTIC_WEIGHT,
+  FUSION_STRATEGIES,
+  search,
+  type FusionStrategy,
+  type SearchMode,
+  type SearchResult
+} from './search.js';
+import { DEFAULT_SERVER_HOST, DEFAULT_SERVER_PORT, startServer } from './server.js';
+import { DEFAULT_WATCH_DEBOUNCE_MS, watchRepository } from './watch.js';
+import { listRepoIndex, migrateDatabase, type RepoIndexRow } from './db.js';
+import {
+  ensureDataLayout,
+  safeRepoNameFromPath,
   parseRepoPath,
-  globToSqlPattern,
   formatLineNumber,
+  globToRegExp,
+  hasGlobChars,
+  setDataDir,
   REPOS_DIR
 } from './util.js';
 
@@ -26,6 +63,12 @@ const version = packageJson.version;
 
 const program = new Command();
 
+// Settings resolved from config files, environment and global flags before
+// each command runs; flags are kept so `config list` can report them
+let settings: Settings;
+const settingFlags: Partial<Settings> = {};
+const settingFlagNames: Partial<Record<SettingKey, string>> = {};
+
 function formatDuration(ms: number): string {
   if (ms < 1000) {
     return `${ms}ms`;
@@ -47,12 +90,144 @@ function formatTimestamp(timestamp: number | null): string {
   return date.toLocaleString();
 }
 
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function printIndexSummary(summary: IndexSummary): void {
+  if (isMachineOutput()) {
+    emitRecord(summary);
+    return;
+  }
+  const commits = summary.commitsIndexed ? `, ${summary.commitsIndexed} commit(s)` : '';
+  const large = summary.filesSkippedLarge ? `, ${summary.filesSkippedLarge} too large` : '';
+  console.log(`Indexed ${summary.repo} (${summary.filesIndexed} file(s) updated, ${summary.filesDeleted} deleted, ${summary.filesSkippedUnchanged} unchanged, ${summary.filesSkippedBinary} binary skipped${large}${commits}) in ${formatDuration(summary.durationMs)}.`);
+  if (!summary.filesIndexed) {
+    return;
+  }
+  console.log(
+    `Throughput: ${summary.filesPerSecond} files/s, ${summary.embeddingsPerSecond} embeddings/s (${summary.chunksEmbedded} chunk(s) embedded, ${summary.chunksReused} reused).`
+  );
+}
+
+const BLAME_AUTHOR_WIDTH = 16;
+
+/**
+ * Fixed-width `sha author date` column; blank when there is no blame, so
+ * context lines stay aligned with annotated ones.
+ */
+function formatBlame(blame: BlameInfo | null | undefined): string {
+  if (!blame) {
+    return ' '.repeat(8 + 1 + BLAME_AUTHOR_WIDTH + 1 + 10);
+  }
+  const author =
+    blame.author.length > BLAME_AUTHOR_WIDTH ? `${blame.author.slice(0, BLAME_AUTHOR_WIDTH - 1)}…` : blame.author.padEnd(BLAME_AUTHOR_WIDTH);
+  return `${blame.sha.slice(0, 8)} ${author} ${new Date(blame.authoredMs).toISOString().slice(0, 10)}`;
+}
+
+function printMatchLines(match: { line: number; text: string; before: string[]; after: string[]; blame?: BlameInfo | null }, withBlame = false): void {
+  const prefix = (blame?: BlameInfo | null) => (withBlame ? `${formatBlame(blame)} ` : '');
+  match.before.forEach((line, offset) => {
+    console.log(`${prefix()}${formatLineNumber(match.line - match.before.length + offset)}-${line}`);
+  });
+  console.log(`${prefix(match.blame)}${formatLineNumber(match.line)}:${match.text}`);
+  match.after.forEach((line, offset) => {
+    console.log(`${prefix()}${formatLineNumber(match.line + 1 + offset)}-${line}`);
+  });
+}
+
+function printSymbol(symbol: SymbolRecord): void {
+  const name = symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name;
+  console.log(`${symbol.repo}/${symbol.path}:${symbol.startLine}  ${symbol.kind.padEnd(9)}  ${name}`);
+}
+
+const MAX_LISTED_COMMIT_PATHS = 5;
+
+function printCommit(commit: CommitResult): void {
+  const date = new Date(commit.committedMs).toISOString().slice(0, 10);
+  console.log(`${commit.repo} ${commit.sha.slice(0, 12)}  ${date}  ${commit.author} <${commit.email}>`);
+  console.log(`    ${commit.subject}`);
+  // The subject is already shown; the snippet only adds something for multi-line messages
+  if (commit.snippet && commit.message !== commit.subject) {
+    console.log(`    ${commit.snippet.replace(/\s+/g, ' ').trim()}`);
+  }
+  for (const commitPath of commit.paths.slice(0, MAX_LISTED_COMMIT_PATHS)) {
+    console.log(`      ${commitPath}`);
+  }
+  if (commit.paths.length > MAX_LISTED_COMMIT_PATHS) {
+    console.log(`      … and ${commit.paths.length - MAX_LISTED_COMMIT_PATHS} more`);
+  }
+}
+
+/**
+ * Report an expected failure (bad input, missing file) without a stack trace.
+ */
+function fail(message: string): void {
+  if (isMachineOutput()) {
+    emitRecord(toErrorRecord(new Error(message)));
+  } else {
+    console.error(message);
+  }
+  process.exitCode = 1;
+}
+
+/**
+ * Parse a comma-separated `--kind` value. Reports unknown kinds and returns null.
+ */
+function parseSymbolKinds(value: string | undefined): SymbolKind[] | undefined | null {
+  const kinds = value
+    ?.split(',')
+    .map((kind) => kind.trim())
+    .filter(Boolean) as SymbolKind[] | undefined;
+  const unknownKinds = kinds?.filter((kind) => !SYMBOL_KINDS.includes(kind)) ?? [];
+  if (unknownKinds.length) {
+    fail(`Unknown symbol kind: ${unknownKinds.join(', ')}. Use one of: ${SYMBOL_KINDS.join(', ')}.`);
+    return null;
+  }
+  return kinds;
+}
+
+/**
+ * Send a query to a running `repogrep serve` process when there is one,
+ * otherwise answer it in this process.
+ */
+async function viaServer<T>(method: 'GET' | 'POST', route: string, body: unknown, local: () => Promise<T>): Promise<T> {
+  if (program.opts<{ server?: boolean }>().server !== false) {
+    const server = await findRunningServer();
+    if (server) {
+      return callServer<T>(server, method, route, body);
+    }
+  }
+  return local();
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
 function wrapAction(fn: (...args: any[]) => Promise<void>) {
   return (...args: any[]) => {
     fn(...args).catch(async (error) => {
-      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-      if (error instanceof Error && error.stack) {
-        console.error(error.stack);
+      if (isMachineOutput()) {
+        emitRecord(toErrorRecord(error));
+      } else {
+        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        if (error instanceof Error && error.stack) {
+          console.error(error.stack);
+        }
       }
       process.exitCode = 1;
     });
@@ -62,19 +237,100 @@ function wrapAction(fn: (...args: any[]) => Promise<void>) {
 program
   .name('repogrep')
   .description('Local code search combining SQLite FTS and LanceDB semantic search')
-  .version(version);
+  .version(version)
+  .option('--json', 'Print results as JSON')
+  .option('--ndjson', 'Print results as newline-delimited JSON, one record per line')
+  .option('--no-server', 'Do not forward queries to a running `repogrep serve` process')
+  .option('--data-dir <dir>', 'Directory holding the index and cached repositories (default ~/.repogrep)')
+  .option('--embedding-provider <name>', `Embedding backend: ${EMBEDDING_PROVIDERS.join(', ')} (default transformers)`)
+  .option('--embedding-model <id>', 'Embedding model: a transformers.js model id, or the model name sent to the endpoint')
+  .option('--embedding-url <url>', 'Base URL of the OpenAI-compatible (…/v1) or Ollama endpoint')
+  .option('--embedding-workers <count>', 'Batches embedded in parallel while indexing: worker threads for transformers, concurrent requests for endpoints')
+  .hook('preAction', async () => {
+    const globalOptions = program.opts<{
+      json?: boolean;
+      ndjson?: boolean;
+      dataDir?: string;
+      embeddingProvider?: string;
+      embeddingModel?: string;
+      embeddingUrl?: string;
+      embeddingWorkers?: string;
+    }>();
+    if (globalOptions.ndjson) {
+      setOutputFormat('ndjson');
+    } else if (globalOptions.json) {
+      setOutputFormat('json');
+    }
+    if (globalOptions.dataDir) {
+      setDataDir(globalOptions.dataDir);
+    }
+
+    const flagValues: Array<[SettingKey, string, string | undefined]> = [
+      ['embedding.provider', '--embedding-provider', globalOptions.embeddingProvider],
+      ['embedding.model', '--embedding-model', globalOptions.embeddingModel],
+      ['embedding.url', '--embedding-url', globalOptions.embeddingUrl],
+      ['embedding.workers', '--embedding-workers', globalOptions.embeddingWorkers]
+    ];
+    try {
+      for (const [key, flag, text] of flagValues) {
+        if (text !== undefined) {
+          (settingFlags as Record<SettingKey, unknown>)[key] = parseSetting(key, text, flag);
+          settingFlagNames[key] = flag;
+        }
+      }
+      settings = settingValues(await resolveConfig({ flags: settingFlags, flagNames: settingFlagNames }));
+    } catch (error) {
+      program.error(error instanceof Error ? error.message : String(error));
+    }
+    setEmbeddingConfig(embeddingConfigFrom(settings));
+  });
 
 program
   .command('add')
   .argument('<repo>', 'Git repository URL to clone')
   .option('-n, --name <name>', 'Override repository name')
+  .option('--ref <ref>', 'Pin the checkout to a branch, tag or commit SHA')
+  .option('--versioned', 'Keep other versions: index --ref side by side as <name>@<ref>', false)
   .description('Clone a remote repository into the local cache and index it')
   .action(
-    wrapAction(async (repo: string, options: { name?: string }) => {
+    wrapAction(async (repo: string, options: { name?: string; ref?: string; versioned?: boolean }) => {
       await ensureDataLayout();
-      const summary = await addRepository(repo, { repoName: options.name });
+      if (options.versioned && !options.ref) {
+        fail('--versioned needs --ref <branch|tag|sha>.');
+        return;
+      }
+      const summary = await addRepository(repo, {
+        repoName: options.name,
+        ref: options.ref,
+        versioned: options.versioned,
+        progress: !isMachineOutput()
+      });
+      printIndexSummary(summary);
+    })
+  );
 
-      console.log(`Indexed ${summary.repo} (${summary.filesIndexed} file(s) updated, ${summary.filesDeleted} deleted, ${summary.filesSkippedUnchanged} unchanged, ${summary.filesSkippedBinary} binary skipped) in ${formatDuration(summary.durationMs)}.`);
+program
+  .command('pin')
+  .argument('<repo>', 'Repository name')
+  .argument('<ref>', 'Branch, tag or commit SHA to check out')
+  .description('Pin a repository to a branch, tag or commit and re-index what changed')
+  .action(
+    wrapAction(async (repo: string, ref: string) => {
+      await ensureDataLayout();
+      const summary = await pinRepository(repo, ref, { progress: !isMachineOutput() });
+      printIndexSummary(summary);
+    })
+  );
+
+program
+  .command('unpin')
+  .argument('<repo>', 'Repository name')
+  .description("Follow the remote's default branch again and re-index what changed")
+  .action(
+    wrapAction(async (repo: string) => {
+      await ensureDataLayout();
+      const summary = await pinRepository(repo, null, { progress: !isMachineOutput() });
+      printIndexSummary(summary);
     })
   );
 
@@ -83,31 +339,364 @@ program
   .argument('<path>', 'Local repository path to index')
   .option('-r, --repo <name>', 'Repository name override')
   .option('--force', 'Force re-index even if files appear unchanged', false)
+  .option('-w, --watch', 'Keep running and re-index files as they change', false)
+  .option('--debounce <ms>', 'Delay before indexing a batch of changes in watch mode', String(DEFAULT_WATCH_DEBOUNCE_MS))
+  .option('--include <glob>', 'Only index files matching this glob instead of index.include (can be repeated)', (value, previous: string[] = []) => {
+    return [...previous, value];
+  })
+  .option('--exclude <glob>', 'Also skip files matching this glob (can be repeated)', (value, previous: string[] = []) => {
+    return [...previous, value];
+  })
+  .option('--max-file-bytes <bytes>', 'Skip files larger than this many bytes (default index.maxFileBytes)')
+  .option('--git-files', 'Index exactly the files git tracks (git ls-files) instead of walking the directory')
   .description('Index a local repository directory')
   .action(
-    wrapAction(async (repoPath: string, options: { repo?: string; force?: boolean }) => {
+    wrapAction(
+      async (
+        repoPath: string,
+        options: {
+          repo?: string;
+          force?: boolean;
+          watch?: boolean;
+          debounce?: string;
+          include?: string[];
+          exclude?: string[];
+          maxFileBytes?: string;
+          gitFiles?: boolean;
+        }
+      ) => {
+        await ensureDataLayout();
+        const absolutePath = path.resolve(repoPath);
+        await fs.access(absolutePath);
+        const repoName = options.repo ?? safeRepoNameFromPath(absolutePath);
+        const maxFileBytes = options.maxFileBytes !== undefined ? Number(options.maxFileBytes) : undefined;
+        if (maxFileBytes !== undefined && !(Number.isInteger(maxFileBytes) && maxFileBytes > 0)) {
+          fail('--max-file-bytes must be a positive integer.');
+          return;
+        }
+        const filters = { patterns: options.include, exclude: options.exclude, maxFileBytes, gitFiles: options.gitFiles };
+
+        const summary = await indexRepository(absolutePath, {
+          repo: repoName,
+          force: options.force ?? false,
+          source: absolutePath,
+          progress: !isMachineOutput(),
+          ...filters
+        });
+
+        printIndexSummary(summary);
+
+        if (!options.watch) {
+          return;
+        }
+
+        const debounceMs = Math.max(0, Number.parseInt(options.debounce ?? '', 10) || DEFAULT_WATCH_DEBOUNCE_MS);
+        const watcher = await watchRepository(absolutePath, {
+          repo: repoName,
+          source: absolutePath,
+          debounceMs,
+          ...filters,
+          onBatch: (batch, paths) => {
+            if (isMachineOutput()) {
+              emitRecord({ ...batch, changedPaths: paths });
+              return;
+            }
+            console.log(`[${new Date().toLocaleTimeString()}] ${paths.length} path(s) changed: ${batch.filesIndexed} file(s) updated, ${batch.filesDeleted} deleted, ${batch.filesSkippedUnchanged} unchanged, ${batch.filesSkippedBinary} binary skipped in ${formatDuration(batch.durationMs)}.`);
+          },
+          onError: (error) => {
+            if (isMachineOutput()) {
+              emitRecord(toErrorRecord(error));
+            } else {
+              console.error(`Error: ${error.message}`);
+            }
+          }
+        });
+
+        if (!isMachineOutput()) {
+          console.log(`Watching ${absolutePath} for changes (Ctrl+C to stop)...`);
+        }
+        await new Promise<void>((resolve) => {
+          process.once('SIGINT', () => {
+            watcher.close();
+            resolve();
+          });
+        });
+      }
+    )
+  );
+
+program
+  .command('sync')
+  .argument('[repo...]', 'Repositories to sync (default: all)')
+  .option('-j, --concurrency <number>', 'Number of repositories to sync in parallel', '1')
+  .option('--force', 'Force re-index even if files appear unchanged', false)
+  .description('Pull every tracked repository from its source and re-index changed files')
+  .action(
+    wrapAction(async (repos: string[], options: { concurrency?: string; force?: boolean }) => {
       await ensureDataLayout();
-      const absolutePath = path.resolve(repoPath);
-      await fs.access(absolutePath);
-      const repoName = options.repo ?? safeRepoNameFromPath(absolutePath);
+      const concurrency = Math.max(1, Number.parseInt(options.concurrency ?? '1', 10) || 1);
 
-      const summary = await indexRepository(absolutePath, {
-        repo: repoName,
+      const results = await syncRepositories({
+        repos,
+        concurrency,
         force: options.force ?? false,
-        source: null
+        progress: !isMachineOutput(),
+        onResult: (result) => {
+          if (result.status === 'failed' && !isMachineOutput()) {
+            console.error(`Failed to sync ${result.repo}: ${result.error}`);
+          }
+        }
+      });
+
+      const failed = results.filter((result) => result.status === 'failed').length;
+      if (failed) {
+        process.exitCode = 1;
+      }
+
+      if (isMachineOutput()) {
+        emitRecords(results);
+        return;
+      }
+
+      if (!results.length) {
+        console.log('No repositories indexed yet.');
+        return;
+      }
+
+      const rows = results.map((result) => [
+        result.repo,
+        result.status,
+        result.summary ? String(result.summary.filesIndexed) : '-',
+        result.summary ? String(result.summary.filesDeleted) : '-',
+        result.summary ? String(result.summary.filesSkippedUnchanged) : '-',
+        formatDuration(result.durationMs)
+      ]);
+      const header = ['REPO', 'STATUS', 'UPDATED', 'DELETED', 'UNCHANGED', 'TIME'];
+      const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+
+      console.log('');
+      for (const row of [header, ...rows]) {
+        console.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+      }
+
+      console.log(`\nSynced ${results.length - failed} of ${results.length} repository(ies).`);
+    })
+  );
+
+program
+  .command('reembed')
+  .description('Regenerate all vectors with the configured embedding model from the stored file contents and commit messages')
+  .action(
+    wrapAction(async () => {
+      await ensureDataLayout();
+      const summary = await reembedIndex({ progress: !isMachineOutput() });
+
+      if (isMachineOutput()) {
+        emitRecord(summary);
+        return;
+      }
+
+      if (summary.previous) {
+        const unchanged = !embeddingDifferences(summary.previous, summary.current).length;
+        console.log(`${unchanged ? 'Re-embedded with' : 'Switched from'} ${describeEmbedding(summary.previous)}${unchanged ? '' : ` to ${describeEmbedding(summary.current)}`}.`);
+      } else {
+        console.log(`Index is empty; it will use ${describeEmbedding(summary.current)}.`);
+      }
+      console.log(
+        `Embedded ${summary.chunksEmbedded} chunk(s) from ${summary.filesEmbedded} file(s) (${summary.chunksReused} reused from identical files or the embedding cache) and ${summary.commitsEmbedded} commit message(s) in ${formatDuration(summary.durationMs)}.`
+      );
+    })
+  );
+
+const cacheCommand = program.command('cache').description('Inspect and clean the embedding cache shared by all repositories');
+
+cacheCommand
+  .command('stats')
+  .description('Show cache size per embedding model and the lookup hit rate')
+  .action(
+    wrapAction(async () => {
+      await ensureDataLayout();
+      const stats = await getEmbeddingCacheStats();
+
+      if (isMachineOutput()) {
+        emitRecord(stats);
+        return;
+      }
+
+      console.log(`Embedding cache: ${stats.entries} file(s), ${formatBytes(stats.bytes)}; ${stats.unreferencedEntries} no longer indexed.`);
+      for (const model of stats.models) {
+        console.log(`  ${model.model}: ${model.entries} file(s), ${formatBytes(model.bytes)}`);
+      }
+      console.log(
+        stats.hitRate === null
+          ? 'Hit rate: no lookups yet.'
+          : `Hit rate: ${(stats.hitRate * 100).toFixed(1)}% (${stats.hits} hit(s), ${stats.misses} miss(es)).`
+      );
+    })
+  );
+
+cacheCommand
+  .command('prune')
+  .description('Remove cached embeddings of content that no indexed file has anymore')
+  .action(
+    wrapAction(async () => {
+      await ensureDataLayout();
+      const summary = await pruneEmbeddingCache();
+
+      if (isMachineOutput()) {
+        emitRecord(summary);
+        return;
+      }
+      console.log(`Removed ${summary.entriesRemoved} cache entr${summary.entriesRemoved === 1 ? 'y' : 'ies'} (${formatBytes(summary.bytesFreed)}).`);
+    })
+  );
+
+function formatSettingValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatSettingSource(setting: ResolvedSetting): string {
+  return setting.origin ? `${setting.source}: ${setting.origin}` : setting.source;
+}
+
+const configCommand = program
+  .command('config')
+  .description('Show and change settings, layered as defaults < <data dir>/config < .repogreprc < REPOGREP_* variables < flags');
+
+configCommand
+  .command('list')
+  .option('--repo-dir <dir>', "Include the repository's .repogreprc")
+  .description('Show every setting with its value and where it comes from')
+  .action(
+    wrapAction(async (options: { repoDir?: string }) => {
+      const config = await resolveConfig({
+        repoDir: options.repoDir ? path.resolve(options.repoDir) : undefined,
+        flags: settingFlags,
+        flagNames: settingFlagNames
       });
+      const resolved = SETTING_KEYS.map((key) => config[key]);
+
+      if (isMachineOutput()) {
+        emitRecords(resolved);
+        return;
+      }
+
+      console.log(`Global config: ${globalConfigPath()}`);
+      for (const setting of resolved) {
+        console.log(`${setting.key} = ${formatSettingValue(setting.value)} (${formatSettingSource(setting)})`);
+      }
+    })
+  );
+
+configCommand
+  .command('get')
+  .argument('<key>', 'Setting name, e.g. search.limit')
+  .option('--repo-dir <dir>', "Include the repository's .repogreprc")
+  .description('Show one setting and where its value comes from')
+  .action(
+    wrapAction(async (key: string, options: { repoDir?: string }) => {
+      if (!(key in SETTINGS)) {
+        fail(`Unknown setting "${key}". Known settings: ${SETTING_KEYS.join(', ')}`);
+        return;
+      }
+      const config = await resolveConfig({
+        repoDir: options.repoDir ? path.resolve(options.repoDir) : undefined,
+        flags: settingFlags,
+        flagNames: settingFlagNames
+      });
+      const setting = config[key as SettingKey];
+
+      if (isMachineOutput()) {
+        emitRecord(setting);
+        return;
+      }
+      console.log(`${formatSettingValue(setting.value)} (${formatSettingSource(setting)})`);
+    })
+  );
+
+configCommand
+  .command('set')
+  .argument('<key>', 'Setting name, e.g. search.limit')
+  .argument('<value>', 'New value; lists are comma-separated or a JSON array')
+  .option('--repo-dir <dir>', "Write to the repository's .repogreprc instead of the global config")
+  .description('Change a setting in the global config or a repository')
+  .action(
+    wrapAction(async (key: string, text: string, options: { repoDir?: string }) => {
+      const value = parseSetting(key, text);
+      const filePath = await writeSetting(key, value, { repoDir: options.repoDir ? path.resolve(options.repoDir) : undefined });
+
+      if (isMachineOutput()) {
+        emitRecord({ key, value, path: filePath });
+        return;
+      }
+      console.log(`Set ${key} = ${formatSettingValue(value)} in ${filePath}.`);
+    })
+  );
 
-      console.log(`Indexed ${summary.repo} (${summary.filesIndexed} file(s) updated, ${summary.filesDeleted} deleted, ${summary.filesSkippedUnchanged} unchanged, ${summary.filesSkippedBinary} binary skipped) in ${formatDuration(summary.durationMs)}.`);
+configCommand
+  .command('unset')
+  .argument('<key>', 'Setting name, e.g. search.limit')
+  .option('--repo-dir <dir>', "Remove it from the repository's .repogreprc instead of the global config")
+  .description('Remove a setting from the global config or a repository')
+  .action(
+    wrapAction(async (key: string, options: { repoDir?: string }) => {
+      const filePath = await writeSetting(key, undefined, { repoDir: options.repoDir ? path.resolve(options.repoDir) : undefined });
+
+      if (isMachineOutput()) {
+        emitRecord({ key, value: null, path: filePath });
+        return;
+      }
+      console.log(`Removed ${key} from ${filePath}.`);
+    })
+  );
+
+program
+  .command('migrate')
+  .description('Bring the index database schema up to date')
+  .option('--dry-run', 'Print the pending schema changes without applying them', false)
+  .action(
+    wrapAction(async (options: { dryRun: boolean }) => {
+      const summary = await migrateDatabase({ dryRun: options.dryRun });
+
+      if (isMachineOutput()) {
+        emitRecord(summary);
+        return;
+      }
+
+      if (!summary.steps.length) {
+        console.log(`Schema is up to date (version ${summary.fromVersion}).`);
+        return;
+      }
+
+      console.log(
+        options.dryRun
+          ? `${summary.steps.length} pending migration(s) from version ${summary.fromVersion} to ${summary.toVersion}:`
+          : `Migrated from version ${summary.fromVersion} to ${summary.toVersion}:`
+      );
+      for (const step of summary.steps) {
+        console.log(`  ${step.version}. ${step.description}${step.destructive ? ' (destructive; the database is backed up first)' : ''}`);
+      }
+      if (summary.backupPath) {
+        console.log(`Backup: ${summary.backupPath}`);
+      }
     })
   );
 
 program
   .command('search')
   .argument('<query...>', 'Search query string')
-  .option('-r, --repo <name>', 'Filter results to a single repository')
-  .option('-l, --limit <number>', 'Maximum number of results (default 20)', '20')
+  .option('-r, --repo <name>', 'Filter results to a single repository (name@* for all versions, name@latest for the newest)')
+  .option('-l, --limit <number>', 'Maximum number of results (default search.limit, 20)')
+  .option('--keyword', 'Use keyword search mode (the default unless search.mode says otherwise)', false)
   .option('--semantic', 'Use semantic search mode', false)
   .option('--hybrid', 'Use hybrid search mode', false)
+  .option('-C, --context <lines>', 'Context lines around each match (default search.contextLines, 2)')
+  .option('--fusion <strategy>', `Hybrid score fusion: ${FUSION_STRATEGIES.join(', ')} (default search.fusion, ${DEFAULT_FUSION})`)
+  .option('--keyword-weight <weight>', `Weight of the keyword ranking in hybrid mode (default search.keywordWeight, ${DEFAULT_KEYWORD_WEIGHT})`)
+  .option('--semantic-weight <weight>', `Weight of the semantic ranking in hybrid mode (default search.semanticWeight, ${DEFAULT_SEMANTIC_WEIGHT})`)
+  .option('--keyword-candidates <number>', 'Keyword results considered before fusion in hybrid mode')
+  .option('--semantic-candidates <number>', 'Semantic results considered before fusion in hybrid mode')
+  .option('--with-blame', 'Show the commit, author and date that last changed each matched line')
   .description('Search indexed repositories using keyword, semantic, or hybrid mode')
   .action(
     wrapAction(
@@ -116,30 +705,83 @@ program
         options: {
           repo?: string;
           limit?: string;
+          keyword?: boolean;
           semantic?: boolean;
           hybrid?: boolean;
+          context?: string;
+          fusion?: string;
+          keywordWeight?: string;
+          semanticWeight?: string;
+          keywordCandidates?: string;
+          semanticCandidates?: string;
+          withBlame?: boolean;
         }
       ) => {
         await ensureDataLayout();
         const query = queryParts.join(' ').trim();
         if (!query) {
-          console.error('Query string cannot be empty.');
-          process.exitCode = 1;
+          fail('Query string cannot be empty.');
           return;
         }
 
-        let mode: SearchMode = 'keyword';
+        let mode: SearchMode = settings['search.mode'];
         if (options.hybrid) {
           mode = 'hybrid';
         } else if (options.semantic) {
           mode = 'semantic';
+        } else if (options.keyword) {
+          mode = 'keyword';
+        }
+
+        const limit = options.limit !== undefined ? Number.parseInt(options.limit, 10) || settings['search.limit'] : settings['search.limit'];
+        const contextLines =
+          options.context !== undefined ? Math.max(0, Number.parseInt(options.context, 10) || 0) : settings['search.contextLines'];
+
+        const fusion = (options.fusion ?? settings['search.fusion']) as FusionStrategy;
+        if (fusion && !FUSION_STRATEGIES.includes(fusion)) {
+          fail(`Unknown fusion strategy "${fusion}". Use one of: ${FUSION_STRATEGIES.join(', ')}.`);
+          return;
+        }
+        const weightFlags: Array<[string, string | undefined]> = [
+          ['--keyword-weight', options.keywordWeight],
+          ['--semantic-weight', options.semanticWeight]
+        ];
+        for (const [flag, value] of weightFlags) {
+          if (value !== undefined && !(Number(value) >= 0)) {
+            fail(`${flag} must be a non-negative number.`);
+            return;
+          }
+        }
+        const candidateFlags: Array<[string, string | undefined]> = [
+          ['--keyword-candidates', options.keywordCandidates],
+          ['--semantic-candidates', options.semanticCandidates]
+        ];
+        for (const [flag, value] of candidateFlags) {
+          if (value !== undefined && !(Number.parseInt(value, 10) > 0)) {
+            fail(`${flag} must be a positive integer.`);
+            return;
+          }
         }
 
-        const limit = Number.parseInt(options.limit ?? '20', 10) || 20;
-        const results = await search(query, mode, {
+        const searchOptions = {
           repo: options.repo,
-          limit
-        });
+          limit,
+          contextLines,
+          fusion,
+          keywordWeight: options.keywordWeight !== undefined ? Number(options.keywordWeight) : settings['search.keywordWeight'],
+          semanticWeight: options.semanticWeight !== undefined ? Number(options.semanticWeight) : settings['search.semanticWeight'],
+          keywordCandidates: options.keywordCandidates !== undefined ? Number.parseInt(options.keywordCandidates, 10) : undefined,
+          semanticCandidates: options.semanticCandidates !== undefined ? Number.parseInt(options.semanticCandidates, 10) : undefined,
+          withBlame: options.withBlame
+        };
+        const results = await viaServer<SearchResult[]>('POST', '/search', { query, mode, ...searchOptions }, () =>
+          search(query, mode, searchOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(results);
+          return;
+        }
 
         if (!results.length) {
           console.log('No results found.');
@@ -149,11 +791,27 @@ program
         for (const result of results) {
           const title = `${result.repo}/${result.path}`;
           const score = result.score.toFixed(3);
-          console.log(`${title}  (score ${score})`);
-          if (result.snippet) {
-            const snippet = result.snippet.replace(/\n/g, '\n  ');
-            console.log(`  ${snippet}`);
+          const matches = result.matches ?? [];
+
+          if (!matches.length) {
+            const location = result.startLine !== undefined ? `${title}:${result.startLine}` : title;
+            console.log(`${location}  (score ${score})`);
+            if (result.snippet) {
+              const snippet = result.snippet.replace(/\n/g, '\n  ');
+              console.log(`  ${snippet}`);
+            }
+            console.log('');
+            continue;
           }
+
+          // Print each hit as repo/path:line:column so terminals and editors can link it
+          console.log(`${title}:${matches[0].line}:${matches[0].column}  (score ${score})`);
+          matches.forEach((match, index) => {
+            if (index > 0) {
+              console.log(`${title}:${match.line}:${match.column}`);
+            }
+            printMatchLines(match, options.withBlame);
+          });
           console.log('');
         }
       }
@@ -166,7 +824,12 @@ program
   .action(
     wrapAction(async () => {
       await ensureDataLayout();
-      const repos = await listRepoIndex();
+      const repos = await viaServer<RepoIndexRow[]>('GET', '/repos', undefined, () => listRepoIndex());
+
+      if (isMachineOutput()) {
+        emitRecords(repos);
+        return;
+      }
 
       if (!repos.length) {
         console.log('No repositories indexed yet.');
@@ -179,6 +842,71 @@ program
         if (repo.source) {
           console.log(`  source: ${repo.source}`);
         }
+        if (repo.commit_sha) {
+          console.log(`  ref: ${repo.ref ?? '(default branch)'} @ ${repo.commit_sha.slice(0, 12)}`);
+        }
+      }
+    })
+  );
+
+program
+  .command('remove')
+  .alias('rm')
+  .argument('<repo...>', 'Repository names or glob patterns to remove')
+  .option('-y, --yes', 'Skip the confirmation prompt', false)
+  .description('Remove repositories from the index and delete their cached files')
+  .action(
+    wrapAction(async (repoArgs: string[], options: { yes?: boolean }) => {
+      await ensureDataLayout();
+      const indexed = (await listRepoIndex()).map((row) => row.repo);
+      const cached = (await fs.readdir(REPOS_DIR, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+      const known = Array.from(new Set([...indexed, ...cached])).sort();
+
+      const targets = new Set<string>();
+      for (const arg of repoArgs) {
+        const matched = hasGlobChars(arg)
+          ? known.filter((name) => globToRegExp(arg).test(name))
+          : known.filter((name) => name === arg);
+        if (!matched.length) {
+          fail(`No repository matches: ${arg}`);
+          continue;
+        }
+        matched.forEach((name) => targets.add(name));
+      }
+
+      if (!targets.size) {
+        return;
+      }
+
+      const names = Array.from(targets);
+      if (!options.yes) {
+        if (!process.stdin.isTTY || isMachineOutput()) {
+          fail('Refusing to remove without confirmation. Re-run with --yes.');
+          return;
+        }
+        console.log(`This will remove ${names.length} repository(ies):`);
+        names.forEach((name) => console.log(`  ${name}`));
+        if (!(await confirm('Continue?'))) {
+          console.log('Aborted.');
+          return;
+        }
+      }
+
+      let totalFreed = 0;
+      for (const name of names) {
+        const summary = await removeRepository(name);
+        totalFreed += summary.bytesFreed;
+        if (isMachineOutput()) {
+          emitRecord(summary);
+        } else {
+          console.log(`Removed ${summary.repo} (${formatBytes(summary.bytesFreed)} freed).`);
+        }
+      }
+
+      if (names.length > 1 && !isMachineOutput()) {
+        console.log(`Freed ${formatBytes(totalFreed)} in total.`);
       }
     })
   );
@@ -199,90 +927,28 @@ program
         }
       ) => {
         await ensureDataLayout();
-        const db = await getSqliteDb();
-
-        if (!pathArg) {
-          // List all repositories
-          const repos = await listRepoIndex();
-          
-          if (!repos.length) {
-            console.log('No repositories indexed yet.');
-            return;
-          }
 
-          for (const repo of repos) {
-            console.log(`${repo.repo}/`);
-          }
-          return;
-        }
-
-        const { repo, path: dirPath } = parseRepoPath(pathArg);
-        
-        if (!repo) {
-          console.error('Invalid path format. Use: repo or repo/path');
-          process.exitCode = 1;
+        if (pathArg && !parseRepoPath(pathArg).repo) {
+          fail('Invalid path format. Use: repo or repo/path');
           return;
         }
 
-        // Get all files in this repo that start with the directory path
-        const searchPath = dirPath ? `${dirPath}/` : '';
-        const sql = 'SELECT path FROM file_meta WHERE repo = ? AND path LIKE ? ORDER BY path';
-        const pattern = `${searchPath}%`;
-        
-        const files = db.prepare(sql).all(repo, pattern) as Array<{ path: string }>;
+        const entries = await viaServer<LsEntry[]>('POST', '/ls', { path: pathArg, ignore: options.ignore }, () =>
+          listDirectory(pathArg, { ignore: options.ignore })
+        );
 
-        if (files.length === 0) {
-          console.log('No files found in this directory.');
+        if (isMachineOutput()) {
+          emitRecords(entries);
           return;
         }
 
-        // Group by immediate subdirectory or file
-        const entries = new Set<string>();
-        const ignorePatterns = options.ignore || [];
-
-        for (const file of files) {
-          let relativePath = file.path;
-          
-          // Remove the directory prefix
-          if (dirPath) {
-            if (file.path.startsWith(searchPath)) {
-              relativePath = file.path.slice(searchPath.length);
-            } else {
-              continue;
-            }
-          }
-
-          // Check if matches ignore patterns
-          let shouldIgnore = false;
-          for (const ignorePattern of ignorePatterns) {
-            const sqlIgnorePattern = globToSqlPattern(ignorePattern);
-            // Simple glob matching (could be improved)
-            if (relativePath.includes(ignorePattern.replace(/\*/g, ''))) {
-              shouldIgnore = true;
-              break;
-            }
-          }
-
-          if (shouldIgnore) {
-            continue;
-          }
-
-          // Get the immediate entry (directory or file)
-          const slashIndex = relativePath.indexOf('/');
-          if (slashIndex === -1) {
-            // It's a file in this directory
-            entries.add(relativePath);
-          } else {
-            // It's in a subdirectory
-            const subdir = relativePath.slice(0, slashIndex);
-            entries.add(`${subdir}/`);
-          }
+        if (!entries.length) {
+          console.log(pathArg ? 'No files found in this directory.' : 'No repositories indexed yet.');
+          return;
         }
 
-        const sortedEntries = Array.from(entries).sort();
-        
-        for (const entry of sortedEntries) {
-          console.log(entry);
+        for (const entry of entries) {
+          console.log(entry.name);
         }
       }
     )
@@ -304,34 +970,20 @@ program
         }
       ) => {
         await ensureDataLayout();
-        const db = await getSqliteDb();
-
-        const sqlPattern = globToSqlPattern(pattern);
-        
-        const filters: string[] = [];
-        const params: string[] = [];
-        
-        let sql = 'SELECT repo, path FROM file_meta WHERE (path LIKE ? OR filename LIKE ?)';
-        params.push(sqlPattern, sqlPattern);
-        
-        if (options.repo) {
-          filters.push('repo = ?');
-          params.push(options.repo);
-        }
 
-        if (filters.length > 0) {
-          sql += ' AND ' + filters.join(' AND ');
-        }
-
-        sql += ' ORDER BY mtime_ms DESC';
-
-        if (options.limit) {
-          sql += ' LIMIT ?';
-          params.push(options.limit);
+        const globOptions = {
+          repo: options.repo,
+          limit: options.limit ? Number.parseInt(options.limit, 10) : undefined
+        };
+        const files = await viaServer<GlobMatch[]>('POST', '/glob', { pattern, ...globOptions }, () =>
+          globFiles(pattern, globOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(files);
+          return;
         }
 
-        const files = db.prepare(sql).all(...params) as Array<{ repo: string; path: string }>;
-
         if (files.length === 0) {
           console.log('No files found matching pattern.');
           return;
@@ -350,6 +1002,7 @@ program
   .option('--offset <line>', 'Start reading from line number', '1')
   .option('--limit <lines>', 'Number of lines to read')
   .option('-n, --line-numbers', 'Show line numbers', true)
+  .option('--blame', 'Annotate each line with the commit, author and date that last changed it')
   .description('Read contents of an indexed file')
   .action(
     wrapAction(
@@ -359,62 +1012,55 @@ program
           offset?: string;
           limit?: string;
           lineNumbers?: boolean;
+          blame?: boolean;
         }
       ) => {
         await ensureDataLayout();
-        const db = await getSqliteDb();
 
         const { repo, path: filePath } = parseRepoPath(fileArg);
-        
+
         if (!repo || !filePath) {
-          console.error('Invalid file format. Use: repo/path');
-          process.exitCode = 1;
+          fail('Invalid file format. Use: repo/path');
           return;
         }
 
-        // Verify file exists in index
-        const fileRecord = db
-          .prepare('SELECT repo, path FROM file_meta WHERE repo = ? AND path = ?')
-          .get(repo, filePath) as { repo: string; path: string } | undefined;
+        const offset = Math.max(1, Number.parseInt(options.offset ?? '1', 10));
+        const limit = options.limit ? Number.parseInt(options.limit, 10) : undefined;
 
-        if (!fileRecord) {
-          console.error(`File not found in index: ${fileArg}`);
-          process.exitCode = 1;
+        let result: ReadResult | null;
+        try {
+          result = await viaServer<ReadResult | null>('POST', '/read', { repo, path: filePath, offset, limit, blame: options.blame }, () =>
+            readIndexedFile(repo, filePath, { offset, limit, blame: options.blame })
+          );
+        } catch (err) {
+          fail(`Error reading file: ${err instanceof Error ? err.message : String(err)}`);
           return;
         }
 
-        const absolutePath = path.join(REPOS_DIR, repo, filePath);
-        
-        let content: string;
-        try {
-          content = await fs.readFile(absolutePath, 'utf-8');
-        } catch (err) {
-          console.error(`Error reading file: ${err instanceof Error ? err.message : String(err)}`);
-          process.exitCode = 1;
+        if (!result) {
+          fail(`File not found in index: ${fileArg}`);
           return;
         }
 
-        const lines = content.split('\n');
-        const offset = Math.max(1, Number.parseInt(options.offset ?? '1', 10));
-        const limit = options.limit ? Number.parseInt(options.limit, 10) : lines.length;
-        
-        const startLine = offset - 1; // Convert to 0-based
-        const endLine = Math.min(lines.length, startLine + limit);
+        if (offset > result.totalLines) {
+          fail(`Offset ${offset} is beyond file length (${result.totalLines} lines)`);
+          return;
+        }
 
-        if (startLine >= lines.length) {
-          console.error(`Offset ${offset} is beyond file length (${lines.length} lines)`);
-          process.exitCode = 1;
+        if (isMachineOutput()) {
+          emitRecord(result);
           return;
         }
 
-        for (let i = startLine; i < endLine; i++) {
+        result.lines.forEach((line, index) => {
+          const blame = result.blame ? `${formatBlame(result.blame[index])} ` : '';
           if (options.lineNumbers) {
-            const lineNum = formatLineNumber(i + 1);
-            console.log(`${lineNum}|${lines[i]}`);
+            const lineNum = formatLineNumber(result.startLine + index);
+            console.log(`${blame}${lineNum}|${line}`);
           } else {
-            console.log(lines[i]);
+            console.log(`${blame}${line}`);
           }
-        }
+        });
       }
     )
   );
@@ -431,6 +1077,7 @@ program
   .option('-c, --count', 'Show match counts per file', false)
   .option('--type <ext>', 'Filter by file extension')
   .option('--limit <number>', 'Limit output lines/results')
+  .option('--with-blame', 'Show the commit, author and date that last changed each matching line')
   .description('Search for pattern in indexed files using regex')
   .action(
     wrapAction(
@@ -446,19 +1093,15 @@ program
           count?: boolean;
           type?: string;
           limit?: string;
+          withBlame?: boolean;
         }
       ) => {
         await ensureDataLayout();
-        const db = await getSqliteDb();
 
-        // Build regex
-        const flags = options.ignoreCase ? 'gi' : 'g';
-        let regex: RegExp;
         try {
-          regex = new RegExp(pattern, flags);
+          new RegExp(pattern);
         } catch (err) {
-          console.error(`Invalid regex pattern: ${err instanceof Error ? err.message : String(err)}`);
-          process.exitCode = 1;
+          fail(`Invalid regex pattern: ${err instanceof Error ? err.message : String(err)}`);
           return;
         }
 
@@ -471,71 +1114,53 @@ program
           contextAfter = contextBoth;
         }
 
-        // Query indexed files
-        const filters: string[] = [];
-        const params: string[] = [];
-        
-        let sql = 'SELECT repo, path, filename FROM file_meta WHERE 1=1';
-        
-        if (options.repo) {
-          filters.push('repo = ?');
-          params.push(options.repo);
-        }
-        
-        if (options.type) {
-          filters.push("filename LIKE ?");
-          params.push(`%.${options.type}`);
+        const outputLimit = options.limit ? Number.parseInt(options.limit, 10) : Number.MAX_SAFE_INTEGER;
+        const grepOptions = {
+          repo: options.repo,
+          ignoreCase: options.ignoreCase,
+          contextBefore,
+          contextAfter,
+          type: options.type,
+          limit: options.count || !options.limit ? undefined : outputLimit,
+          filesOnly: options.filesWithMatches || options.count,
+          withBlame: options.withBlame
+        };
+        const files = await viaServer<GrepFileResult[]>('POST', '/grep', { pattern, ...grepOptions }, () =>
+          grepFiles(pattern, grepOptions)
+        );
+
+        if (isMachineOutput()) {
+          if (options.count) {
+            emitRecords(files.map(({ repo, path: filePath, count }) => ({ repo, path: filePath, count })));
+          } else if (options.filesWithMatches) {
+            emitRecords(files.map(({ repo, path: filePath }) => ({ repo, path: filePath })));
+          } else {
+            emitRecords(files.flatMap((file) => file.matches));
+          }
+          return;
         }
 
-        if (filters.length > 0) {
-          sql += ' AND ' + filters.join(' AND ');
+        if (files.length === 0) {
+          console.log('No matches found.');
+          return;
         }
 
-        sql += ' ORDER BY repo, path';
-
-        const files = db.prepare(sql).all(...params) as Array<{ repo: string; path: string; filename: string }>;
+        // Print counts if in count mode
+        if (options.count) {
+          for (const file of files) {
+            console.log(`${file.repo}/${file.path}:${file.count}`);
+          }
+          return;
+        }
 
         let totalOutputLines = 0;
-        const outputLimit = options.limit ? Number.parseInt(options.limit, 10) : Number.MAX_SAFE_INTEGER;
-        const fileCounts = new Map<string, number>();
 
         for (const file of files) {
           if (totalOutputLines >= outputLimit) {
             break;
           }
 
-          const filePath = path.join(REPOS_DIR, file.repo, file.path);
-          let content: string;
-          
-          try {
-            content = await fs.readFile(filePath, 'utf-8');
-          } catch (err) {
-            // File not found on disk, skip
-            continue;
-          }
-
-          const lines = content.split('\n');
-          const matchingLines: Array<{ lineNum: number; isMatch: boolean; content: string }> = [];
-          const matchedLineNums = new Set<number>();
-
-          // Find all matching lines
-          for (let i = 0; i < lines.length; i++) {
-            if (regex.test(lines[i])) {
-              matchedLineNums.add(i);
-            }
-          }
-
-          if (matchedLineNums.size === 0) {
-            continue;
-          }
-
           const fileKey = `${file.repo}/${file.path}`;
-          fileCounts.set(fileKey, matchedLineNums.size);
-
-          // If count mode, skip to next file
-          if (options.count) {
-            continue;
-          }
 
           // If files-with-matches mode, just print filename
           if (options.filesWithMatches) {
@@ -544,51 +1169,302 @@ program
             continue;
           }
 
-          // Build output with context
-          const linesToShow = new Set<number>();
-          for (const matchLine of matchedLineNums) {
-            for (let i = Math.max(0, matchLine - contextBefore); i <= Math.min(lines.length - 1, matchLine + contextAfter); i++) {
-              linesToShow.add(i);
-            }
+          // Merge the context windows of neighbouring matches
+          const linesToShow = new Map<number, { text: string; isMatch: boolean; blame?: BlameInfo | null }>();
+          for (const match of file.matches) {
+            match.before.forEach((text, offset) => {
+              const lineNum = match.line - match.before.length + offset;
+              if (!linesToShow.has(lineNum)) {
+                linesToShow.set(lineNum, { text, isMatch: false });
+              }
+            });
+            linesToShow.set(match.line, { text: match.text, isMatch: true, blame: match.blame });
+            match.after.forEach((text, offset) => {
+              const lineNum = match.line + 1 + offset;
+              if (!linesToShow.has(lineNum)) {
+                linesToShow.set(lineNum, { text, isMatch: false });
+              }
+            });
           }
 
-          const sortedLines = Array.from(linesToShow).sort((a, b) => a - b);
-          
-          if (sortedLines.length > 0) {
-            console.log(`${fileKey}`);
-            totalOutputLines += 1;
-          }
+          console.log(fileKey);
+          totalOutputLines += 1;
 
+          const sortedLines = Array.from(linesToShow.keys()).sort((a, b) => a - b);
           for (const lineNum of sortedLines) {
             if (totalOutputLines >= outputLimit) {
               break;
             }
-            
-            const isMatch = matchedLineNums.has(lineNum);
-            const separator = isMatch ? ':' : '-';
-            const formattedLineNum = formatLineNumber(lineNum + 1);
-            console.log(`${formattedLineNum}${separator}${lines[lineNum]}`);
+
+            const entry = linesToShow.get(lineNum)!;
+            const separator = entry.isMatch ? ':' : '-';
+            const blame = options.withBlame ? `${formatBlame(entry.blame)} ` : '';
+            console.log(`${blame}${formatLineNumber(lineNum)}${separator}${entry.text}`);
             totalOutputLines += 1;
           }
 
-          if (sortedLines.length > 0 && totalOutputLines < outputLimit) {
+          if (totalOutputLines < outputLimit) {
             console.log('');
             totalOutputLines += 1;
           }
         }
+      }
+    )
+  );
 
-        // Print counts if in count mode
-        if (options.count) {
-          for (const [fileKey, count] of fileCounts.entries()) {
-            console.log(`${fileKey}:${count}`);
+program
+  .command('symbols')
+  .argument('[query]', 'Symbol name to fuzzy-search for; lists all symbols when omitted')
+  .option('-r, --repo <name>', 'Filter to specific repository')
+  .option('-k, --kind <kinds>', `Comma-separated symbol kinds (${SYMBOL_KINDS.join(', ')})`)
+  .option('--exact', 'Only match the exact symbol name', false)
+  .option('-l, --limit <number>', 'Maximum number of symbols (default 50)', '50')
+  .description('List or fuzzy-search functions, classes, interfaces, methods and constants')
+  .action(
+    wrapAction(
+      async (
+        query: string | undefined,
+        options: {
+          repo?: string;
+          kind?: string;
+          exact?: boolean;
+          limit?: string;
+        }
+      ) => {
+        await ensureDataLayout();
+
+        const kinds = parseSymbolKinds(options.kind);
+        if (kinds === null) {
+          return;
+        }
+
+        const symbolOptions = {
+          repo: options.repo,
+          kinds,
+          exact: options.exact,
+          limit: Number.parseInt(options.limit ?? '50', 10) || 50
+        };
+        const symbols = await viaServer<SymbolRecord[]>('POST', '/symbols', { query, ...symbolOptions }, () =>
+          findSymbols(query, symbolOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(symbols);
+          return;
+        }
+
+        if (!symbols.length) {
+          console.log('No symbols found.');
+          return;
+        }
+
+        for (const symbol of symbols) {
+          printSymbol(symbol);
+        }
+      }
+    )
+  );
+
+program
+  .command('def')
+  .argument('<name>', 'Symbol name, optionally qualified as Container.name')
+  .option('-r, --repo <name>', 'Filter to specific repository')
+  .option('-k, --kind <kinds>', `Comma-separated symbol kinds (${SYMBOL_KINDS.join(', ')})`)
+  .option('-l, --limit <number>', 'Maximum number of definitions (default 50)', '50')
+  .description('Show where a symbol is defined across indexed repositories')
+  .action(
+    wrapAction(
+      async (
+        name: string,
+        options: {
+          repo?: string;
+          kind?: string;
+          limit?: string;
+        }
+      ) => {
+        await ensureDataLayout();
+
+        const kinds = parseSymbolKinds(options.kind);
+        if (kinds === null) {
+          return;
+        }
+
+        const defOptions = {
+          repo: options.repo,
+          kinds,
+          limit: Number.parseInt(options.limit ?? '50', 10) || 50
+        };
+        const definitions = await viaServer<SymbolRecord[]>('POST', '/def', { name, ...defOptions }, () =>
+          findDefinitions(name, defOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(definitions);
+          return;
+        }
+
+        if (!definitions.length) {
+          console.log(`No definition found for ${name}.`);
+          return;
+        }
+
+        for (const symbol of definitions) {
+          printSymbol(symbol);
+        }
+      }
+    )
+  );
+
+program
+  .command('refs')
+  .argument('<name>', 'Identifier to find usages of')
+  .option('-r, --repo <name>', 'Filter to specific repository')
+  .option('--from <file>', 'Rank references by closeness to this repo/path instead of the definition')
+  .option('-l, --limit <number>', 'Maximum number of references (default 100)', '100')
+  .description('Find usages of an identifier, skipping comments and strings where the language is known')
+  .action(
+    wrapAction(
+      async (
+        name: string,
+        options: {
+          repo?: string;
+          from?: string;
+          limit?: string;
+        }
+      ) => {
+        await ensureDataLayout();
+
+        const refOptions = {
+          repo: options.repo,
+          from: options.from,
+          limit: Number.parseInt(options.limit ?? '100', 10) || 100
+        };
+        const references = await viaServer<SymbolReference[]>('POST', '/refs', { name, ...refOptions }, () =>
+          findReferences(name, refOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(references);
+          return;
+        }
+
+        if (!references.length) {
+          console.log(`No references found for ${name}.`);
+          return;
+        }
+
+        for (const reference of references) {
+          console.log(`${reference.repo}/${reference.path}:${reference.line}:${reference.column}: ${reference.text.trim()}`);
+        }
+      }
+    )
+  );
+
+program
+  .command('log')
+  .argument('<query...>', 'Words to search commit messages, authors and touched paths for')
+  .option('-s, --semantic', 'Search commit messages by meaning instead of keywords')
+  .option('-r, --repo <name>', 'Filter to specific repository')
+  .option('--path <path>', 'Only commits touching this file, directory or glob')
+  .option('--since <when>', 'Only commits since a date (2024-01-31) or span ("2 weeks", 30d)')
+  .option('--author <name>', 'Only commits whose author name or email contains this text')
+  .option('-l, --limit <number>', 'Maximum number of commits (default 20)', '20')
+  .description('Search the indexed commit history of git repositories')
+  .action(
+    wrapAction(
+      async (
+        queryParts: string[],
+        options: {
+          semantic?: boolean;
+          repo?: string;
+          path?: string;
+          since?: string;
+          author?: string;
+          limit?: string;
+        }
+      ) => {
+        await ensureDataLayout();
+
+        if (options.since) {
+          try {
+            parseSince(options.since);
+          } catch (error) {
+            fail((error as Error).message);
+            return;
           }
         }
 
-        if (fileCounts.size === 0) {
-          console.log('No matches found.');
+        const query = queryParts.join(' ');
+        const logOptions: LogOptions = {
+          mode: options.semantic ? 'semantic' : 'keyword',
+          repo: options.repo,
+          path: options.path,
+          since: options.since,
+          author: options.author,
+          limit: Number.parseInt(options.limit ?? '20', 10) || 20
+        };
+        const commits = await viaServer<CommitResult[]>('POST', '/log', { query, ...logOptions }, () =>
+          searchHistory(query, logOptions)
+        );
+
+        if (isMachineOutput()) {
+          emitRecords(commits);
+          return;
         }
+
+        if (!commits.length) {
+          console.log('No commits found.');
+          return;
+        }
+
+        commits.forEach((commit, index) => {
+          if (index > 0) {
+            console.log('');
+          }
+          printCommit(commit);
+        });
       }
     )
   );
 
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server over stdio exposing search, grep, read, ls and glob as tools')
+  .action(
+    wrapAction(async () => {
+      await startMcpServer({ version });
+    })
+  );
+
+program
+  .command('serve')
+  .option('-p, --port <number>', 'Port to listen on', String(DEFAULT_SERVER_PORT))
+  .option('--host <host>', 'Interface to bind', DEFAULT_SERVER_HOST)
+  .description('Run a local HTTP query server that keeps the model and indexes loaded')
+  .action(
+    wrapAction(async (options: { port?: string; host?: string }) => {
+      const port = Number.parseInt(options.port ?? '', 10);
+      const server = await startServer({
+        host: options.host,
+        port: Number.isFinite(port) ? port : DEFAULT_SERVER_PORT,
+        version,
+        onLog: (message) => console.error(message)
+      });
+
+      if (isMachineOutput()) {
+        emitRecord(server.info);
+      } else {
+        console.log(`repogrep server listening on http://${server.info.host}:${server.info.port} (Ctrl+C to stop)`);
+      }
+
+      await new Promise<void>((resolve) => {
+        const stop = () => {
+          server.close().then(resolve, resolve);
+        };
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+      });
+    })
+  );
+
 program.parseAsync(process.argv);
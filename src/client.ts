@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises';
+
+import { currentEmbeddingIdentity, type EmbeddingIdentity } from './embed.js';
+import type { ServerInfoFile } from './server.js';
+import { DATA_DIR, SERVER_INFO_PATH } from './util.js';
+
+const HEALTH_TIMEOUT_MS = 500;
+
+let detectedServer: Promise<ServerInfoFile | null> | null = null;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function serverUrl(info: ServerInfoFile, route: string): string {
+  return `http://${info.host}:${info.port}${route}`;
+}
+
+function authHeaders(info: ServerInfoFile): Record<string, string> {
+  return info.token ? { Authorization: `Bearer ${info.token}` } : {};
+}
+
+async function detect(): Promise<ServerInfoFile | null> {
+  let info: ServerInfoFile;
+  try {
+    info = JSON.parse(await fs.readFile(SERVER_INFO_PATH, 'utf-8')) as ServerInfoFile;
+  } catch {
+    return null;
+  }
+
+  if (!isProcessAlive(info.pid)) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(serverUrl(info, '/health'), {
+      headers: authHeaders(info),
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      return null;
+    }
+    // Only hand queries to a server reading the same index with the same model
+    const health = (await response.json()) as { dataDir?: string; embedding?: EmbeddingIdentity };
+    return health.dataDir === DATA_DIR && sameEmbedding(health.embedding, currentEmbeddingIdentity()) ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+function sameEmbedding(server: EmbeddingIdentity | undefined, local: EmbeddingIdentity): boolean {
+  return !!server && (Object.keys(local) as Array<keyof EmbeddingIdentity>).every((key) => server[key] === local[key]);
+}
+
+/**
+ * Find a `repogrep serve` process started from this data directory whose
+ * embedding setup matches this process. The lookup runs once per process.
+ */
+export async function findRunningServer(): Promise<ServerInfoFile | null> {
+  if (!detectedServer) {
+    detectedServer = detect();
+  }
+  return detectedServer;
+}
+
+export async function callServer<T>(info: ServerInfoFile, method: 'GET' | 'POST', route: string, body?: unknown): Promise<T> {
+  const response = await fetch(serverUrl(info, route), {
+    method,
+    headers: body === undefined ? authHeaders(info) : { ...authHeaders(info), 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  const payload = (await response.json()) as T | { error?: { message?: string } };
+  if (!response.ok) {
+    const message = (payload as { error?: { message?: string } }).error?.message;
+    throw new Error(message ?? `Server responded with ${response.status}`);
+  }
+  return payload as T;
+}
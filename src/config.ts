@@ -0,0 +1,359 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { EMBEDDING_PROVIDERS, type EmbeddingConfig, type EmbeddingProviderName } from './embed.js';
+import {
+  DEFAULT_FUSION,
+  DEFAULT_KEYWORD_WEIGHT,
+  DEFAULT_SEMANTIC_WEIGHT,
+  FUSION_STRATEGIES,
+  SEARCH_MODES,
+  type FusionStrategy,
+  type SearchMode
+} from './search.js';
+import { DATA_DIR, DEFAULT_IGNORE_PATTERNS, MAX_INDEXED_BYTES, fileExists } from './util.js';
+
+/** Every configurable setting with the type of its value. */
+export interface Settings {
+  'index.include': string[];
+  'index.exclude': string[];
+  'index.defaultExcludes': boolean;
+  'index.maxFileBytes': number;
+  'index.gitFiles': boolean;
+  'embedding.provider': EmbeddingProviderName;
+  'embedding.model': string | null;
+  'embedding.url': string | null;
+  'embedding.batchSize': number | null;
+  'embedding.workers': number | null;
+  'search.mode': SearchMode;
+  'search.limit': number;
+  'search.contextLines': number;
+  'search.fusion': FusionStrategy;
+  'search.keywordWeight': number;
+  'search.semanticWeight': number;
+}
+
+export type SettingKey = keyof Settings;
+
+/**
+ * Where a value came from, lowest precedence first: built-in default, the
+ * global config file, the repository's `.repogreprc`, a `REPOGREP_*`
+ * environment variable, or a command-line flag.
+ */
+export type ConfigSource = 'default' | 'global' | 'repo' | 'env' | 'flag';
+
+export interface ResolvedSetting<K extends SettingKey = SettingKey> {
+  key: K;
+  value: Settings[K];
+  source: ConfigSource;
+  /** File path, environment variable or flag that set the value; null for defaults. */
+  origin: string | null;
+}
+
+export type ResolvedConfig = { [K in SettingKey]: ResolvedSetting<K> };
+
+export interface ResolveConfigOptions {
+  /** Repository root whose `.repogreprc` applies. */
+  repoDir?: string;
+  /** Values from command-line flags, keyed by setting. */
+  flags?: Partial<Settings>;
+  /** Flag name to report as the origin of each flag value. */
+  flagNames?: Partial<Record<SettingKey, string>>;
+}
+
+interface SettingDefinition {
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'list';
+  description: string;
+  default: Settings[SettingKey];
+  choices?: readonly string[];
+  /** Can be set per repository in `.repogreprc`. */
+  repo?: boolean;
+}
+
+export const SETTINGS: Record<SettingKey, SettingDefinition> = {
+  'index.include': { type: 'list', default: ['**/*'], repo: true, description: 'Globs of files to index' },
+  'index.exclude': { type: 'list', default: [], repo: true, description: 'Globs of files to skip, on top of the built-in excludes and ignore files' },
+  'index.defaultExcludes': {
+    type: 'boolean',
+    default: true,
+    repo: true,
+    description: 'Skip dependency, build and media files (node_modules, dist, images, …)'
+  },
+  'index.maxFileBytes': { type: 'integer', default: MAX_INDEXED_BYTES, repo: true, description: 'Files larger than this many bytes are not indexed' },
+  'index.gitFiles': {
+    type: 'boolean',
+    default: false,
+    repo: true,
+    description: 'Index exactly the files git tracks (git ls-files) instead of walking the directory'
+  },
+  'embedding.provider': { type: 'string', default: 'transformers', choices: EMBEDDING_PROVIDERS, description: 'Embedding backend' },
+  'embedding.model': { type: 'string', default: null, description: "Embedding model (default depends on the provider)" },
+  'embedding.url': { type: 'string', default: null, description: 'Base URL of the OpenAI-compatible or Ollama endpoint' },
+  'embedding.batchSize': { type: 'integer', default: null, description: 'Texts per embedding batch (default depends on the provider)' },
+  'embedding.workers': { type: 'integer', default: null, description: 'Batches embedded in parallel while indexing (default depends on the provider)' },
+  'search.mode': { type: 'string', default: 'keyword', choices: SEARCH_MODES, description: 'Search mode when no mode flag is given' },
+  'search.limit': { type: 'integer', default: 20, description: 'Maximum number of search results' },
+  'search.contextLines': { type: 'integer', default: 2, description: 'Context lines around each search match' },
+  'search.fusion': { type: 'string', default: DEFAULT_FUSION, choices: FUSION_STRATEGIES, description: 'Hybrid score fusion strategy' },
+  'search.keywordWeight': { type: 'number', default: DEFAULT_KEYWORD_WEIGHT, description: 'Weight of the keyword ranking in hybrid mode' },
+  'search.semanticWeight': { type: 'number', default: DEFAULT_SEMANTIC_WEIGHT, description: 'Weight of the semantic ranking in hybrid mode' }
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[];
+
+export const REPO_CONFIG_FILE = '.repogreprc';
+export const REPO_IGNORE_FILE = '.repogrepignore';
+
+export function globalConfigPath(): string {
+  return path.join(DATA_DIR, 'config');
+}
+
+/** `embedding.batchSize` → `REPOGREP_EMBEDDING_BATCH_SIZE` */
+export function settingEnvVar(key: SettingKey): string {
+  return `REPOGREP_${key.replace(/([a-z])([A-Z])/g, '$1_$2').replace(/\./g, '_').toUpperCase()}`;
+}
+
+function assertSettingKey(key: string): asserts key is SettingKey {
+  if (!(key in SETTINGS)) {
+    throw new Error(`Unknown setting "${key}". Known settings: ${SETTING_KEYS.join(', ')}`);
+  }
+}
+
+/**
+ * Check a value read from a config file (already typed by JSON) or parsed
+ * from a string. `origin` names where it came from in error messages.
+ */
+function validateSetting(key: SettingKey, value: unknown, origin: string): Settings[SettingKey] {
+  const definition = SETTINGS[key];
+  const invalid = (expected: string) => new Error(`Invalid value for ${key} in ${origin}: expected ${expected}, got ${JSON.stringify(value)}`);
+
+  if (value === null) {
+    if (definition.default !== null) {
+      throw invalid(definition.type);
+    }
+    return null;
+  }
+
+  switch (definition.type) {
+    case 'list':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        throw invalid('a list of strings');
+      }
+      return value as string[];
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw invalid('true or false');
+      }
+      return value;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < (key === 'search.contextLines' ? 0 : 1)) {
+        throw invalid(key === 'search.contextLines' ? 'a non-negative integer' : 'a positive integer');
+      }
+      return value;
+    case 'number':
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw invalid('a non-negative number');
+      }
+      return value;
+    case 'string':
+      if (typeof value !== 'string' || (definition.choices && !definition.choices.includes(value))) {
+        throw invalid(definition.choices ? `one of ${definition.choices.join(', ')}` : 'a string');
+      }
+      return value as Settings[SettingKey];
+  }
+}
+
+/**
+ * Parse a setting from text, as given on the command line or in an
+ * environment variable. Lists are comma-separated or a JSON array.
+ */
+export function parseSetting(key: string, text: string, origin = 'the command line'): Settings[SettingKey] {
+  assertSettingKey(key);
+  const trimmed = text.trim();
+  let value: unknown = trimmed;
+
+  switch (SETTINGS[key].type) {
+    case 'list':
+      value = trimmed.startsWith('[')
+        ? JSON.parse(trimmed)
+        : trimmed
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean);
+      break;
+    case 'boolean':
+      value = trimmed === 'true' ? true : trimmed === 'false' ? false : trimmed;
+      break;
+    case 'integer':
+    case 'number':
+      value = trimmed === '' || Number.isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+      break;
+  }
+  return validateSetting(key, value, origin);
+}
+
+/**
+ * Turn `{ "search": { "limit": 10 } }` into `{ "search.limit": 10 }`.
+ * Dotted keys at the top level are accepted as well.
+ */
+function flattenConfig(object: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(object)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(key in SETTINGS)) {
+      Object.assign(flat, flattenConfig(value as Record<string, unknown>, key));
+    } else {
+      flat[key] = value;
+    }
+  }
+  return flat;
+}
+
+async function readConfigObject(filePath: string): Promise<Record<string, unknown>> {
+  if (!(await fileExists(filePath))) {
+    return {};
+  }
+  const text = await fs.readFile(filePath, 'utf8');
+  if (!text.trim()) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${filePath} must contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+async function readConfigFile(filePath: string, scope: 'global' | 'repo'): Promise<Partial<Settings>> {
+  const settings: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flattenConfig(await readConfigObject(filePath)))) {
+    assertSettingKey(key);
+    if (scope === 'repo' && !SETTINGS[key].repo) {
+      throw new Error(`${key} cannot be set per repository (in ${filePath}); set it in ${globalConfigPath()} instead`);
+    }
+    settings[key] = validateSetting(key, value, filePath);
+  }
+  return settings as Partial<Settings>;
+}
+
+/**
+ * Resolve every setting through the layers: defaults, the global config file
+ * (`<data dir>/config`), the repository's `.repogreprc`, `REPOGREP_*`
+ * environment variables and command-line flags. Later layers win.
+ */
+export async function resolveConfig(options: ResolveConfigOptions = {}): Promise<ResolvedConfig> {
+  const config = {} as Record<SettingKey, ResolvedSetting>;
+  for (const key of SETTING_KEYS) {
+    config[key] = { key, value: SETTINGS[key].default, source: 'default', origin: null };
+  }
+
+  const apply = (values: Partial<Settings>, source: ConfigSource, origin: (key: SettingKey) => string): void => {
+    for (const [key, value] of Object.entries(values) as Array<[SettingKey, Settings[SettingKey]]>) {
+      if (value !== undefined) {
+        config[key] = { key, value, source, origin: origin(key) };
+      }
+    }
+  };
+
+  const globalPath = globalConfigPath();
+  apply(await readConfigFile(globalPath, 'global'), 'global', () => globalPath);
+
+  if (options.repoDir) {
+    const repoPath = path.join(options.repoDir, REPO_CONFIG_FILE);
+    apply(await readConfigFile(repoPath, 'repo'), 'repo', () => repoPath);
+  }
+
+  const fromEnv: Partial<Record<SettingKey, Settings[SettingKey]>> = {};
+  for (const key of SETTING_KEYS) {
+    const text = process.env[settingEnvVar(key)];
+    if (text !== undefined && text !== '') {
+      fromEnv[key] = parseSetting(key, text, settingEnvVar(key));
+    }
+  }
+  apply(fromEnv as Partial<Settings>, 'env', settingEnvVar);
+
+  apply(options.flags ?? {}, 'flag', (key) => options.flagNames?.[key] ?? key);
+
+  return config as ResolvedConfig;
+}
+
+export function settingValues(config: ResolvedConfig): Settings {
+  const values = {} as Record<SettingKey, Settings[SettingKey]>;
+  for (const key of SETTING_KEYS) {
+    values[key] = config[key].value;
+  }
+  return values as Settings;
+}
+
+/** The embedding settings that are set, as an `EmbeddingConfig`. */
+export function embeddingConfigFrom(settings: Settings): EmbeddingConfig {
+  return {
+    provider: settings['embedding.provider'],
+    model: settings['embedding.model'] ?? undefined,
+    url: settings['embedding.url'] ?? undefined,
+    batchSize: settings['embedding.batchSize'] ?? undefined,
+    workers: settings['embedding.workers'] ?? undefined
+  };
+}
+
+export interface IndexFilters {
+  patterns: string[];
+  /** Exclude globs; ignore files are applied separately (see ignore.ts). */
+  ignore: string[];
+  maxFileBytes: number;
+  gitFiles: boolean;
+}
+
+/**
+ * Files to index in a repository: the configured include and exclude globs
+ * and the built-in excludes. Explicit `patterns` and `ignore` replace the
+ * configured globs; `exclude` adds to them.
+ */
+export async function resolveIndexFilters(
+  repoDir: string,
+  overrides: { patterns?: string[]; ignore?: string[]; exclude?: string[]; maxFileBytes?: number; gitFiles?: boolean } = {}
+): Promise<IndexFilters> {
+  const settings = settingValues(await resolveConfig({ repoDir }));
+  const configured = [...(settings['index.defaultExcludes'] ? DEFAULT_IGNORE_PATTERNS : []), ...settings['index.exclude']];
+
+  return {
+    patterns: overrides.patterns ?? settings['index.include'],
+    ignore: [...(overrides.ignore ?? configured), ...(overrides.exclude ?? [])],
+    maxFileBytes: overrides.maxFileBytes ?? settings['index.maxFileBytes'],
+    gitFiles: overrides.gitFiles ?? settings['index.gitFiles']
+  };
+}
+
+/**
+ * Write a setting to the global config file, or to `.repogreprc` in
+ * `repoDir`. Pass `undefined` to remove it.
+ */
+export async function writeSetting(key: string, value: Settings[SettingKey] | undefined, options: { repoDir?: string } = {}): Promise<string> {
+  assertSettingKey(key);
+  if (options.repoDir && !SETTINGS[key].repo) {
+    throw new Error(`${key} cannot be set per repository; set it without --repo-dir`);
+  }
+  const filePath = options.repoDir ? path.join(options.repoDir, REPO_CONFIG_FILE) : globalConfigPath();
+
+  const flat = flattenConfig(await readConfigObject(filePath));
+  if (value === undefined) {
+    delete flat[key];
+  } else {
+    flat[key] = value;
+  }
+
+  // Written back nested, grouped by section
+  const nested: Record<string, Record<string, unknown>> = {};
+  for (const [flatKey, flatValue] of Object.entries(flat)) {
+    const [section, name] = flatKey.split('.');
+    (nested[section] ??= {})[name] = flatValue;
+  }
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify(nested, null, 2)}\n`);
+  return filePath;
+}
@@ -3,9 +3,18 @@ import { connect, type Connection, type Table } from '@lancedb/lancedb';
 import {
   SQLITE_DB_PATH,
   VECTORS_DIR,
-  ensureDataLayout
+  ensureDataLayout,
+  escapeFilterValue
 } from './util.js';
-import { getEmbeddingDimension } from './embed.js';
+import { CHUNK_MAX_CHARS, CHUNK_MAX_LINES, CHUNK_OVERLAP_LINES } from './chunk.js';
+import {
+  currentEmbeddingMetadata,
+  describeEmbedding,
+  embeddingDifferences,
+  getEmbeddingDimension,
+  type EmbeddingMetadata
+} from './embed.js';
+import { getSchemaVersion, planMigrations, runMigrations, type MigrationSummary } from './migrations.js';
 
 export interface FileMetaRow {
   id?: number;
@@ -25,12 +34,19 @@ export interface FileEmbeddingRow {
   mtime_ms: number;
   size_bytes: number;
   hash: string;
+  chunk_index: number;
+  start_line: number;
+  end_line: number;
   vector: Float32Array | number[];
 }
 
 export interface RepoIndexRow {
   repo: string;
   source: string | null;
+  /** Branch, tag or commit the checkout is pinned to; null follows the default branch. */
+  ref: string | null;
+  /** Commit checked out at the last index. */
+  commit_sha: string | null;
   last_indexed_ms: number | null;
   last_error: string | null;
   file_count: number;
@@ -41,55 +57,123 @@ type SqliteDatabase = InstanceType<typeof BetterSqlite3>;
 let sqliteDb: SqliteDatabase | null = null;
 let lanceConnectionPromise: Promise<Connection> | null = null;
 let lanceTablePromise: Promise<Table> | null = null;
+let commitTablePromise: Promise<Table> | null = null;
 
 const LANCE_TABLE_NAME = 'files';
+const LANCE_REQUIRED_FIELDS = ['vector', 'chunk_index', 'start_line', 'end_line'];
+const COMMIT_TABLE_NAME = 'commits';
+const COMMIT_REQUIRED_FIELDS = ['vector', 'repo', 'sha', 'committed_ms'];
+const EMBEDDING_METADATA_KEY = 'embedding';
+// Names of the live vector tables; `reembedIndex` builds replacements under new names
+const VECTOR_TABLES_KEY = 'vector_tables';
+const FILE_VECTOR_TEMPLATE = {
+  repo: '',
+  path: '',
+  filename: '',
+  mtime_ms: 0,
+  size_bytes: 0,
+  hash: '',
+  chunk_index: 0,
+  start_line: 0,
+  end_line: 0
+};
+const COMMIT_VECTOR_TEMPLATE = { repo: '', sha: '', committed_ms: 0 };
+// Run when an outdated vector table is dropped, so the next plain index or
+// sync re-embeds what it held instead of treating it as up to date
+const FILE_VECTORS_DROPPED_SQL = "UPDATE file_meta SET hash = ''";
+const COMMIT_VECTORS_DROPPED_SQL = 'UPDATE repo_index SET history_sha = NULL';
+
+interface VectorTableNames {
+  files: string;
+  commits: string;
+}
 
-function createSchema(db: SqliteDatabase): void {
-  db.exec('PRAGMA journal_mode = WAL');
-  db.exec('PRAGMA foreign_keys = ON');
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS file_meta (
-      id INTEGER PRIMARY KEY,
-      repo TEXT NOT NULL,
-      path TEXT NOT NULL,
-      filename TEXT NOT NULL,
-      mtime_ms INTEGER NOT NULL,
-      size_bytes INTEGER NOT NULL,
-      hash TEXT NOT NULL,
-      UNIQUE(repo, path)
-    )
-  `);
+/** What indexes built before embedding metadata was recorded were embedded with. */
+const LEGACY_EMBEDDING_METADATA: EmbeddingMetadata = {
+  provider: 'transformers',
+  model: 'Xenova/all-MiniLM-L6-v2',
+  revision: 'main',
+  dimension: 384,
+  chunkMaxLines: CHUNK_MAX_LINES,
+  chunkOverlapLines: CHUNK_OVERLAP_LINES,
+  chunkMaxChars: CHUNK_MAX_CHARS
+};
+
+function openSqliteDb(): MigrationSummary {
+  const db = new BetterSqlite3(SQLITE_DB_PATH);
+  try {
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec('PRAGMA foreign_keys = ON');
+    const summary = runMigrations(db, (version) => `${SQLITE_DB_PATH}.v${version}-${Date.now()}.bak`);
+    sqliteDb = db;
+    return summary;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
 
-  db.exec(`
-    CREATE VIRTUAL TABLE IF NOT EXISTS file_fts USING fts5(
-      repo, path, filename, contents, tokenize = 'porter'
-    )
-  `);
+export async function getSqliteDb(): Promise<SqliteDatabase> {
+  if (!sqliteDb) {
+    await ensureDataLayout();
+    openSqliteDb();
+  }
+  return sqliteDb as SqliteDatabase;
+}
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS repo_index (
-      repo TEXT PRIMARY KEY,
-      source TEXT,
-      last_indexed_ms INTEGER,
-      last_error TEXT
-    )
-  `);
+/**
+ * Bring the SQLite schema up to date, or with `dryRun` only report the
+ * pending steps. Migrations also run whenever the database is first opened,
+ * so an already open database has nothing left to apply.
+ */
+export async function migrateDatabase(options: { dryRun?: boolean } = {}): Promise<MigrationSummary> {
+  if (sqliteDb) {
+    const version = getSchemaVersion(sqliteDb);
+    return { fromVersion: version, toVersion: version, steps: [], backupPath: null, dryRun: options.dryRun === true };
+  }
 
-  db.exec('CREATE INDEX IF NOT EXISTS idx_file_meta_repo ON file_meta(repo)');
-  db.exec('CREATE INDEX IF NOT EXISTS idx_file_meta_repo_path ON file_meta(repo, path)');
+  await ensureDataLayout();
+  if (!options.dryRun) {
+    return openSqliteDb();
+  }
+
+  let db: SqliteDatabase;
+  try {
+    db = new BetterSqlite3(SQLITE_DB_PATH, { readonly: true, fileMustExist: true });
+  } catch {
+    return planMigrations(null);
+  }
+  try {
+    return planMigrations(db);
+  } finally {
+    db.close();
+  }
 }
 
-export async function getSqliteDb(): Promise<SqliteDatabase> {
+/**
+ * Close the SQLite and LanceDB handles. The next call to `getSqliteDb` or
+ * `getLanceTable` reopens them from the current data directory.
+ */
+export async function closeDatabases(): Promise<void> {
   if (sqliteDb) {
-    return sqliteDb;
+    sqliteDb.close();
+    sqliteDb = null;
   }
 
-  await ensureDataLayout();
+  const connectionPromise = lanceConnectionPromise;
+  const tablePromises = [lanceTablePromise, commitTablePromise];
+  lanceConnectionPromise = null;
+  lanceTablePromise = null;
+  commitTablePromise = null;
 
-  sqliteDb = new BetterSqlite3(SQLITE_DB_PATH);
-  createSchema(sqliteDb);
-  return sqliteDb;
+  for (const tablePromise of tablePromises) {
+    const table = await tablePromise?.catch(() => null);
+    table?.close();
+  }
+  if (connectionPromise) {
+    const connection = await connectionPromise.catch(() => null);
+    connection?.close();
+  }
 }
 
 async function getLanceConnection(): Promise<Connection> {
@@ -102,45 +186,154 @@ async function getLanceConnection(): Promise<Connection> {
   return lanceConnectionPromise;
 }
 
-async function initializeLanceTable(): Promise<Table> {
+/**
+ * Open a LanceDB table, or create it from `template` (whose `vector` is filled
+ * in with zeros). Tables missing one of `requiredFields` were written by an
+ * older version; they are dropped, and `droppedSql` marks what they held as
+ * stale so the next reindex repopulates them.
+ */
+async function openOrCreateLanceTable(
+  name: string,
+  template: Record<string, unknown>,
+  requiredFields: string[],
+  droppedSql: string
+): Promise<Table> {
   const connection = await getLanceConnection();
   const existingTables = await connection.tableNames();
 
-  if (existingTables.includes(LANCE_TABLE_NAME)) {
-    const table = await connection.openTable(LANCE_TABLE_NAME);
+  if (existingTables.includes(name)) {
+    const table = await connection.openTable(name);
     const schema = await table.schema();
-    const vectorField = schema.fields.find((field) => field.name === 'vector');
-    if (vectorField) {
+    const fieldNames = new Set(schema.fields.map((field) => field.name));
+    if (requiredFields.every((field) => fieldNames.has(field))) {
       return table;
     }
 
     await table.close();
-    await connection.dropTable(LANCE_TABLE_NAME);
+    await connection.dropTable(name);
+    (await getSqliteDb()).exec(droppedSql);
   }
 
-  const dimension = getEmbeddingDimension();
+  const dimension = await getEmbeddingDimension();
   const zeroVector = Array.from({ length: dimension }, () => 0);
-  const table = await connection.createTable(
-    LANCE_TABLE_NAME,
-    [
-      {
-        id: '__template__',
-        repo: '',
-        path: '',
-        filename: '',
-        mtime_ms: 0,
-        size_bytes: 0,
-        hash: '',
-        vector: zeroVector
-      }
-    ],
-    { mode: 'create', existOk: true }
-  );
+  const table = await connection.createTable(name, [{ id: '__template__', ...template, vector: zeroVector }], {
+    mode: 'create',
+    existOk: true
+  });
 
   await table.delete("id = '__template__'");
   return table;
 }
 
+async function closeVectorTables(): Promise<void> {
+  const tablePromises = [lanceTablePromise, commitTablePromise];
+  lanceTablePromise = null;
+  commitTablePromise = null;
+  for (const tablePromise of tablePromises) {
+    const table = await tablePromise?.catch(() => null);
+    table?.close();
+  }
+}
+
+async function activeVectorTableNames(): Promise<VectorTableNames> {
+  const db = await getSqliteDb();
+  const row = db.prepare('SELECT value FROM index_meta WHERE key = ?').get(VECTOR_TABLES_KEY) as { value: string } | undefined;
+  return row ? (JSON.parse(row.value) as VectorTableNames) : { files: LANCE_TABLE_NAME, commits: COMMIT_TABLE_NAME };
+}
+
+/**
+ * Drop the chunk and commit vector tables. They are recreated, with the
+ * current embedding dimension, on next use.
+ */
+export async function dropVectorTables(): Promise<void> {
+  await closeVectorTables();
+  const connection = await getLanceConnection();
+  const existingTables = await connection.tableNames();
+  const names = await activeVectorTableNames();
+  for (const name of [names.files, names.commits]) {
+    if (existingTables.includes(name)) {
+      await connection.dropTable(name);
+    }
+  }
+}
+
+/** Vector tables filled next to the live ones, which keep serving queries meanwhile. */
+export interface StagedVectorTables {
+  names: VectorTableNames;
+  files: Table;
+  commits: Table;
+}
+
+/**
+ * Create empty vector tables with the current embedding dimension under new
+ * names. Tables left by an interrupted rebuild are dropped first.
+ */
+export async function createStagedVectorTables(): Promise<StagedVectorTables> {
+  const connection = await getLanceConnection();
+  const active = await activeVectorTableNames();
+  const stale = /^(files|commits)_[a-z0-9]+$/;
+  for (const name of await connection.tableNames()) {
+    if (stale.test(name) && name !== active.files && name !== active.commits) {
+      await connection.dropTable(name);
+    }
+  }
+
+  const suffix = Date.now().toString(36);
+  const names = { files: `${LANCE_TABLE_NAME}_${suffix}`, commits: `${COMMIT_TABLE_NAME}_${suffix}` };
+  return {
+    names,
+    files: await openOrCreateLanceTable(names.files, FILE_VECTOR_TEMPLATE, LANCE_REQUIRED_FIELDS, FILE_VECTORS_DROPPED_SQL),
+    commits: await openOrCreateLanceTable(names.commits, COMMIT_VECTOR_TEMPLATE, COMMIT_REQUIRED_FIELDS, COMMIT_VECTORS_DROPPED_SQL)
+  };
+}
+
+/**
+ * Make staged tables the live ones, recording the embedding setup they were
+ * built with in the same transaction, then drop the tables they replace.
+ */
+export async function activateStagedVectorTables(staged: StagedVectorTables, metadata: EmbeddingMetadata): Promise<void> {
+  const previous = await activeVectorTableNames();
+  const db = await getSqliteDb();
+  const upsert = db.prepare(`
+    INSERT INTO index_meta (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `);
+  db.transaction(() => {
+    upsert.run(VECTOR_TABLES_KEY, JSON.stringify(staged.names));
+    upsert.run(EMBEDDING_METADATA_KEY, JSON.stringify(metadata));
+  })();
+
+  await closeVectorTables();
+  lanceTablePromise = Promise.resolve(staged.files);
+  commitTablePromise = Promise.resolve(staged.commits);
+
+  const connection = await getLanceConnection();
+  const existingTables = await connection.tableNames();
+  for (const name of [previous.files, previous.commits]) {
+    if (existingTables.includes(name)) {
+      await connection.dropTable(name);
+    }
+  }
+}
+
+/** Drop staged tables after a failed rebuild; the live tables are untouched. */
+export async function discardStagedVectorTables(staged: StagedVectorTables): Promise<void> {
+  staged.files.close();
+  staged.commits.close();
+  const connection = await getLanceConnection();
+  const existingTables = await connection.tableNames();
+  for (const name of [staged.names.files, staged.names.commits]) {
+    if (existingTables.includes(name)) {
+      await connection.dropTable(name);
+    }
+  }
+}
+
+async function initializeLanceTable(): Promise<Table> {
+  const names = await activeVectorTableNames();
+  return openOrCreateLanceTable(names.files, FILE_VECTOR_TEMPLATE, LANCE_REQUIRED_FIELDS, FILE_VECTORS_DROPPED_SQL);
+}
+
 export async function getLanceTable(): Promise<Table> {
   if (!lanceTablePromise) {
     lanceTablePromise = initializeLanceTable();
@@ -148,6 +341,19 @@ export async function getLanceTable(): Promise<Table> {
   return lanceTablePromise;
 }
 
+/**
+ * LanceDB table holding one embedding per commit message.
+ */
+export async function getCommitTable(): Promise<Table> {
+  if (!commitTablePromise) {
+    commitTablePromise = (async () => {
+      const names = await activeVectorTableNames();
+      return openOrCreateLanceTable(names.commits, COMMIT_VECTOR_TEMPLATE, COMMIT_REQUIRED_FIELDS, COMMIT_VECTORS_DROPPED_SQL);
+    })();
+  }
+  return commitTablePromise;
+}
+
 /**
  * Refresh the LanceDB table to get the latest version.
  * This helps avoid commit conflicts when multiple operations happen.
@@ -155,9 +361,10 @@ export async function getLanceTable(): Promise<Table> {
 export async function refreshLanceTable(): Promise<Table> {
   const connection = await getLanceConnection();
   const existingTables = await connection.tableNames();
+  const { files } = await activeVectorTableNames();
   
-  if (existingTables.includes(LANCE_TABLE_NAME)) {
-    const table = await connection.openTable(LANCE_TABLE_NAME);
+  if (existingTables.includes(files)) {
+    const table = await connection.openTable(files);
     lanceTablePromise = Promise.resolve(table);
     return table;
   }
@@ -212,13 +419,110 @@ export async function addToLanceTable(rows: Record<string, unknown>[]): Promise<
   });
 }
 
+export interface StoredChunkVector {
+  chunk_index: number;
+  start_line: number;
+  end_line: number;
+  vector: number[];
+}
+
+/**
+ * Chunk vectors already stored for a file with this content hash, in chunk
+ * order, or null when no indexed file has that content.
+ */
+export async function findChunkVectorsByHash(hash: string): Promise<StoredChunkVector[] | null> {
+  const table = await getLanceTable();
+  const rows = (await table
+    .query()
+    .where(`hash = '${escapeFilterValue(hash)}'`)
+    .select(['repo', 'path', 'chunk_index', 'start_line', 'end_line', 'vector'])
+    .toArray()) as Array<StoredChunkVector & { repo: string; path: string; vector: Iterable<number> }>;
+
+  if (!rows.length) {
+    return null;
+  }
+
+  // Identical files in several repositories each have a full set of chunks; take one
+  const { repo, path } = rows[0];
+  return rows
+    .filter((row) => row.repo === repo && row.path === path)
+    .sort((a, b) => a.chunk_index - b.chunk_index)
+    .map((row) => ({
+      chunk_index: row.chunk_index,
+      start_line: row.start_line,
+      end_line: row.end_line,
+      vector: Array.from(row.vector)
+    }));
+}
+
+/**
+ * Embedding setup the stored vectors were built with, or null for an empty
+ * index. Indexes that predate the metadata are assumed to use the original model.
+ */
+export async function getEmbeddingMetadata(): Promise<EmbeddingMetadata | null> {
+  const db = await getSqliteDb();
+  const hasVectors = db.prepare('SELECT 1 FROM file_meta UNION ALL SELECT 1 FROM commit_meta LIMIT 1').get();
+  if (!hasVectors) {
+    return null;
+  }
+  const row = db.prepare('SELECT value FROM index_meta WHERE key = ?').get(EMBEDDING_METADATA_KEY) as { value: string } | undefined;
+  return row ? (JSON.parse(row.value) as EmbeddingMetadata) : LEGACY_EMBEDDING_METADATA;
+}
+
+export async function setEmbeddingMetadata(metadata: EmbeddingMetadata): Promise<void> {
+  const db = await getSqliteDb();
+  db.prepare(`
+    INSERT INTO index_meta (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(EMBEDDING_METADATA_KEY, JSON.stringify(metadata));
+}
+
+/**
+ * Throw when the configured embedding model does not match the one the index
+ * was built with, since its vectors cannot be compared. An empty index takes
+ * on the configured model when `record` is set.
+ */
+export async function assertEmbeddingCompatible(options: { record?: boolean } = {}): Promise<void> {
+  const stored = await getEmbeddingMetadata();
+  const current = await currentEmbeddingMetadata();
+  if (!stored) {
+    if (options.record) {
+      // Vector tables left over from another model may have a different dimension
+      const db = await getSqliteDb();
+      const row = db.prepare('SELECT value FROM index_meta WHERE key = ?').get(EMBEDDING_METADATA_KEY) as { value: string } | undefined;
+      const previous = row ? (JSON.parse(row.value) as EmbeddingMetadata) : LEGACY_EMBEDDING_METADATA;
+      if (embeddingDifferences(previous, current).length) {
+        await dropVectorTables();
+      }
+      await setEmbeddingMetadata(current);
+    }
+    return;
+  }
+
+  const differences = embeddingDifferences(stored, current);
+  if (differences.length) {
+    throw new Error(
+      `The index was embedded with ${describeEmbedding(stored)}, but the configured embedding is ${describeEmbedding(current)} (${differences.join(', ')} differ). ` +
+        'Run `repogrep reembed` to regenerate the vectors with the configured model, or use the embedding options the index was built with.'
+    );
+  }
+}
+
 export async function resetRepoData(repo: string): Promise<void> {
   const db = await getSqliteDb();
   const deleteMeta = db.prepare('DELETE FROM file_meta WHERE repo = ?');
   const deleteFts = db.prepare('DELETE FROM file_fts WHERE repo = ?');
+  const deleteSymbols = db.prepare('DELETE FROM symbols WHERE repo = ?');
+  const deleteCommits = db.prepare('DELETE FROM commit_meta WHERE repo = ?');
+  const deleteCommitFts = db.prepare('DELETE FROM commit_fts WHERE repo = ?');
+  const deleteBlame = db.prepare('DELETE FROM blame_cache WHERE repo = ?');
   const deleteRepo = db.prepare('DELETE FROM repo_index WHERE repo = ?');
 
   const transaction = db.transaction((repoName: string) => {
+    deleteSymbols.run(repoName);
+    deleteCommits.run(repoName);
+    deleteCommitFts.run(repoName);
+    deleteBlame.run(repoName);
     deleteMeta.run(repoName);
     deleteFts.run(repoName);
     deleteRepo.run(repoName);
@@ -226,13 +530,12 @@ export async function resetRepoData(repo: string): Promise<void> {
 
   transaction(repo);
 
-  if (lanceTablePromise) {
-    const escapedRepo = repo.replace(/'/g, "''");
-    await deleteFromLanceTable(`repo = '${escapedRepo}'`);
-  }
+  const escapedRepo = escapeFilterValue(repo);
+  await deleteFromLanceTable(`repo = '${escapedRepo}'`);
+  await (await getCommitTable()).delete(`repo = '${escapedRepo}'`);
 }
 
-export async function upsertRepoIndex(repo: string, source: string | null, timestamp: number, error: string | null = null): Promise<void> {
+export async function upsertRepoIndex(repo: string, source: string | null, timestamp: number | null, error: string | null = null): Promise<void> {
   const db = await getSqliteDb();
   const stmt = db.prepare(`
     INSERT INTO repo_index (repo, source, last_indexed_ms, last_error)
@@ -246,11 +549,21 @@ export async function upsertRepoIndex(repo: string, source: string | null, times
   stmt.run({ repo, source, timestamp, error });
 }
 
+/**
+ * Record the ref a repository is pinned to and the commit that was indexed.
+ */
+export async function setRepoPin(repo: string, ref: string | null, commitSha: string | null): Promise<void> {
+  const db = await getSqliteDb();
+  db.prepare('UPDATE repo_index SET ref = ?, commit_sha = ? WHERE repo = ?').run(ref, commitSha, repo);
+}
+
 export async function listRepoIndex(): Promise<RepoIndexRow[]> {
   const db = await getSqliteDb();
   const stmt = db.prepare(`
     SELECT repo,
            source,
+           ref,
+           commit_sha,
            last_indexed_ms,
            last_error,
            (
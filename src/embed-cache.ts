@@ -0,0 +1,169 @@
+import { getSqliteDb } from './db.js';
+import { describeEmbedding, type EmbeddingMetadata } from './embed.js';
+
+/** A chunk of a file with its vector, as stored in the embedding cache. */
+export interface CachedChunk {
+  chunk: { index: number; startLine: number; endLine: number };
+  embedding: Float32Array;
+}
+
+export interface EmbeddingCacheModelStats {
+  /** Embedding setup the entries were computed with, as shown by `describeEmbedding`. */
+  model: string;
+  entries: number;
+  bytes: number;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  bytes: number;
+  /** Entries whose content hash no indexed file has anymore; `cache prune` removes them. */
+  unreferencedEntries: number;
+  models: EmbeddingCacheModelStats[];
+  /** Lookups while indexing and re-embedding since the cache was created. */
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or null before the first lookup. */
+  hitRate: number | null;
+}
+
+export interface EmbeddingCachePruneSummary {
+  entriesRemoved: number;
+  bytesFreed: number;
+}
+
+const CACHE_LOOKUPS_KEY = 'embedding_cache_lookups';
+
+/**
+ * Cache key of an embedding setup. Chunking is part of it: the same file
+ * chunked differently yields different vectors.
+ */
+export function embeddingCacheKey(metadata: EmbeddingMetadata): string {
+  return JSON.stringify(metadata);
+}
+
+/**
+ * Chunks and vectors of a file with this content hash, computed earlier with
+ * the same embedding setup by any repository, or null.
+ */
+export async function readEmbeddingCache(key: string, hash: string): Promise<CachedChunk[] | null> {
+  const db = await getSqliteDb();
+  const row = db.prepare('SELECT chunks, vectors FROM embedding_cache WHERE model = ? AND hash = ?').get(key, hash) as
+    | { chunks: string; vectors: Buffer }
+    | undefined;
+  if (!row) {
+    return null;
+  }
+
+  const ranges = JSON.parse(row.chunks) as Array<[number, number]>;
+  if (!ranges.length) {
+    return [];
+  }
+  const all = new Float32Array(row.vectors.buffer.slice(row.vectors.byteOffset, row.vectors.byteOffset + row.vectors.byteLength));
+  const dimension = all.length / ranges.length;
+  return ranges.map(([startLine, endLine], index) => ({
+    chunk: { index, startLine, endLine },
+    embedding: all.slice(index * dimension, (index + 1) * dimension)
+  }));
+}
+
+/**
+ * Store the chunks and vectors of files by content hash, in one transaction.
+ * Existing entries are kept unless `replace` is set.
+ */
+export async function writeEmbeddingCache(
+  key: string,
+  entries: Array<{ hash: string; chunks: CachedChunk[] }>,
+  options: { replace?: boolean } = {}
+): Promise<void> {
+  if (!entries.length) {
+    return;
+  }
+  const db = await getSqliteDb();
+  const insert = db.prepare(`
+    INSERT INTO embedding_cache (model, hash, chunks, vectors, created_ms)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(model, hash) DO ${options.replace ? 'UPDATE SET chunks = excluded.chunks, vectors = excluded.vectors, created_ms = excluded.created_ms' : 'NOTHING'}
+  `);
+
+  const now = Date.now();
+  db.transaction(() => {
+    for (const { hash, chunks } of entries) {
+      const ranges = chunks.map(({ chunk }) => [chunk.startLine, chunk.endLine]);
+      const vectors = new Float32Array(chunks.reduce((total, { embedding }) => total + embedding.length, 0));
+      let offset = 0;
+      for (const { embedding } of chunks) {
+        vectors.set(embedding, offset);
+        offset += embedding.length;
+      }
+      insert.run(key, hash, JSON.stringify(ranges), Buffer.from(vectors.buffer), now);
+    }
+  })();
+}
+
+/**
+ * Add a run's cache hits and misses to the lifetime counters shown by
+ * `cache stats`.
+ */
+export async function recordEmbeddingCacheLookups(hits: number, misses: number): Promise<void> {
+  if (!hits && !misses) {
+    return;
+  }
+  const db = await getSqliteDb();
+  const row = db.prepare('SELECT value FROM index_meta WHERE key = ?').get(CACHE_LOOKUPS_KEY) as { value: string } | undefined;
+  const totals = row ? (JSON.parse(row.value) as { hits: number; misses: number }) : { hits: 0, misses: 0 };
+  db.prepare(`
+    INSERT INTO index_meta (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(CACHE_LOOKUPS_KEY, JSON.stringify({ hits: totals.hits + hits, misses: totals.misses + misses }));
+}
+
+function describeCacheKey(key: string): string {
+  try {
+    return describeEmbedding(JSON.parse(key) as EmbeddingMetadata);
+  } catch {
+    return key;
+  }
+}
+
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+  const db = await getSqliteDb();
+  const models = (
+    db
+      .prepare('SELECT model, COUNT(*) AS entries, SUM(LENGTH(vectors) + LENGTH(chunks)) AS bytes FROM embedding_cache GROUP BY model ORDER BY entries DESC')
+      .all() as Array<{ model: string; entries: number; bytes: number }>
+  ).map((row) => ({ ...row, model: describeCacheKey(row.model) }));
+  const unreferenced = db
+    .prepare('SELECT COUNT(*) AS count FROM embedding_cache WHERE hash NOT IN (SELECT hash FROM file_meta)')
+    .get() as { count: number };
+  const lookups = db.prepare('SELECT value FROM index_meta WHERE key = ?').get(CACHE_LOOKUPS_KEY) as { value: string } | undefined;
+  const { hits, misses } = lookups ? (JSON.parse(lookups.value) as { hits: number; misses: number }) : { hits: 0, misses: 0 };
+
+  return {
+    entries: models.reduce((total, model) => total + model.entries, 0),
+    bytes: models.reduce((total, model) => total + model.bytes, 0),
+    unreferencedEntries: unreferenced.count,
+    models,
+    hits,
+    misses,
+    hitRate: hits + misses ? hits / (hits + misses) : null
+  };
+}
+
+/**
+ * Remove entries for content that no indexed file has anymore, whatever
+ * model they were computed with.
+ */
+export async function pruneEmbeddingCache(): Promise<EmbeddingCachePruneSummary> {
+  const db = await getSqliteDb();
+  const removed = db
+    .prepare(`
+      DELETE FROM embedding_cache WHERE hash NOT IN (SELECT hash FROM file_meta)
+      RETURNING LENGTH(vectors) + LENGTH(chunks) AS bytes
+    `)
+    .all() as Array<{ bytes: number }>;
+  return {
+    entriesRemoved: removed.length,
+    bytesFreed: removed.reduce((total, row) => total + row.bytes, 0)
+  };
+}
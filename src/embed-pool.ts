@@ -0,0 +1,172 @@
+import { Worker } from 'node:worker_threads';
+
+import {
+  embedBatch,
+  getEmbeddingBatchSize,
+  getEmbeddingConfig,
+  getEmbeddingProvider,
+  getEmbeddingWorkers
+} from './embed.js';
+
+/**
+ * Embeds texts from many concurrent callers on a fixed number of parallel
+ * slots. Texts queue up while every slot is busy and go out together as the
+ * next batch, so batches fill up under load without waiting on a timer.
+ */
+export interface EmbeddingPool {
+  /** Maximum number of batches in flight. */
+  readonly size: number;
+  readonly batchSize: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+  close(): Promise<void>;
+}
+
+interface PendingText {
+  text: string;
+  resolve: (vector: Float32Array) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolSlot {
+  busy: boolean;
+  run(texts: string[]): Promise<Float32Array[]>;
+  close(): Promise<void>;
+}
+
+interface WorkerReply {
+  id: number;
+  vectors?: Float32Array[];
+  error?: string;
+}
+
+// Worker threads need the compiled worker; loader hooks such as tsx are not
+// inherited by workers, so running from source embeds in-process only
+const WORKER_URL = new URL('./embed-worker.js', import.meta.url);
+const CAN_START_WORKERS = !import.meta.url.endsWith('.ts');
+
+function createInProcessSlot(): PoolSlot {
+  return {
+    busy: false,
+    run: (texts) => embedBatch(texts),
+    close: async () => {}
+  };
+}
+
+/**
+ * A worker thread with its own copy of the embedding backend. Requests are
+ * matched to replies by id; if the thread dies, everything in flight fails.
+ */
+function createWorkerSlot(): PoolSlot {
+  const worker = new Worker(WORKER_URL, { workerData: { config: getEmbeddingConfig() } });
+  const inFlight = new Map<number, { resolve: (vectors: Float32Array[]) => void; reject: (error: unknown) => void }>();
+  let nextId = 0;
+  let failure: Error | null = null;
+
+  const failAll = (error: Error): void => {
+    failure ??= error;
+    for (const pending of inFlight.values()) {
+      pending.reject(failure);
+    }
+    inFlight.clear();
+  };
+
+  worker.on('message', (reply: WorkerReply) => {
+    const pending = inFlight.get(reply.id);
+    inFlight.delete(reply.id);
+    if (reply.error !== undefined) {
+      pending?.reject(new Error(reply.error));
+    } else {
+      pending?.resolve(reply.vectors ?? []);
+    }
+  });
+  worker.on('error', failAll);
+  worker.on('exit', (code) => failAll(new Error(`Embedding worker exited with code ${code}`)));
+
+  return {
+    busy: false,
+    run(texts) {
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        inFlight.set(id, { resolve, reject });
+        worker.postMessage({ id, texts });
+      });
+    },
+    async close() {
+      await worker.terminate();
+    }
+  };
+}
+
+/**
+ * Start a pool for the configured embedding backend. The first slot embeds in
+ * this process, so small jobs (a watch batch, a few changed files) reuse the
+ * already loaded model. For `transformers`, further slots are worker threads,
+ * started only once a full batch is waiting with every slot busy; endpoints
+ * simply get more concurrent requests.
+ */
+export function createEmbeddingPool(size = getEmbeddingWorkers()): EmbeddingPool {
+  const useThreads = CAN_START_WORKERS && getEmbeddingProvider().name === 'transformers';
+  const batchSize = getEmbeddingBatchSize();
+  const slots: PoolSlot[] = [createInProcessSlot()];
+  const queue: PendingText[] = [];
+  let closed = false;
+
+  const runBatch = (slot: PoolSlot, batch: PendingText[]): void => {
+    slot.busy = true;
+    slot
+      .run(batch.map((pending) => pending.text))
+      .then(
+        (vectors) => {
+          if (vectors.length !== batch.length) {
+            throw new Error(`Embedding worker returned ${vectors.length} vectors for ${batch.length} texts`);
+          }
+          batch.forEach((pending, index) => pending.resolve(vectors[index]));
+        }
+      )
+      .catch((error) => batch.forEach((pending) => pending.reject(error)))
+      .finally(() => {
+        slot.busy = false;
+        dispatch();
+      });
+  };
+
+  const dispatch = (): void => {
+    while (queue.length && !closed) {
+      let slot = slots.find((candidate) => !candidate.busy);
+      if (!slot && slots.length < size && queue.length >= batchSize) {
+        slot = useThreads ? createWorkerSlot() : createInProcessSlot();
+        slots.push(slot);
+      }
+      if (!slot) {
+        return;
+      }
+      runBatch(slot, queue.splice(0, batchSize));
+    }
+  };
+
+  return {
+    size,
+    batchSize,
+    embed(texts) {
+      if (closed) {
+        return Promise.reject(new Error('Embedding pool is closed'));
+      }
+      const vectors = Promise.all(
+        texts.map((text) => new Promise<Float32Array>((resolve, reject) => queue.push({ text, resolve, reject })))
+      );
+      dispatch();
+      return vectors;
+    },
+    async close() {
+      closed = true;
+      const error = new Error('Embedding pool is closed');
+      for (const pending of queue.splice(0)) {
+        pending.reject(error);
+      }
+      await Promise.all(slots.map((slot) => slot.close()));
+    }
+  };
+}
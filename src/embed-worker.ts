@@ -0,0 +1,21 @@
+import { parentPort, workerData } from 'node:worker_threads';
+
+import { embedBatch, setEmbeddingConfig, type EmbeddingConfig } from './embed.js';
+
+// Worker thread of an embedding pool (see embed-pool.ts): embeds one batch
+// per message with the pool's embedding config
+const port = parentPort;
+if (!port) {
+  throw new Error('embed-worker must be started as a worker thread');
+}
+
+setEmbeddingConfig((workerData as { config: EmbeddingConfig }).config);
+
+port.on('message', async ({ id, texts }: { id: number; texts: string[] }) => {
+  try {
+    const vectors = await embedBatch(texts);
+    port.postMessage({ id, vectors }, vectors.map((vector) => vector.buffer as ArrayBuffer));
+  } catch (error) {
+    port.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -1,74 +1,418 @@
+import os from 'node:os';
+
 import { pipeline, type FeatureExtractionPipeline } from '@xenova/transformers';
 
-const MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
-const MODEL_REVISION = 'main';
-const EMBEDDING_DIMENSION = 384;
+import { CHUNK_MAX_CHARS, CHUNK_MAX_LINES, CHUNK_OVERLAP_LINES } from './chunk.js';
+import { sleep } from './util.js';
+
+export type EmbeddingProviderName = 'transformers' | 'openai' | 'ollama';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['transformers', 'openai', 'ollama'];
+
+export interface EmbeddingConfig {
+  /** Backend computing embeddings (default `transformers`). */
+  provider?: EmbeddingProviderName;
+  /** Model id: a transformers.js model, or the model name sent to the endpoint. */
+  model?: string;
+  /** Base URL of the OpenAI-compatible or Ollama endpoint. */
+  url?: string;
+  /** Bearer token for OpenAI-compatible endpoints (default `$OPENAI_API_KEY`). */
+  apiKey?: string;
+  /** Vector size. Detected from the first embedding when not set. */
+  dimension?: number;
+  /** Texts sent per request or inference call. */
+  batchSize?: number;
+  /** Time allowed for one batch before it is retried. */
+  timeoutMs?: number;
+  /** Retries of a failed batch, with exponential backoff. */
+  retries?: number;
+  /**
+   * Batches embedded in parallel while indexing: worker threads each running
+   * the model for `transformers`, concurrent requests for endpoints.
+   */
+  workers?: number;
+}
+
+/**
+ * What the stored vectors depend on. Vectors are only comparable when every
+ * field matches.
+ */
+export interface EmbeddingMetadata {
+  provider: EmbeddingProviderName;
+  model: string;
+  /** Model revision, for providers that pin one. */
+  revision: string | null;
+  dimension: number;
+  chunkMaxLines: number;
+  chunkOverlapLines: number;
+  chunkMaxChars: number;
+}
+
+/**
+ * A backend turning texts into vectors. `embed` receives at most one batch;
+ * batching, timeouts and retries are handled by the caller.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly revision: string | null;
+  /** Known vector size, or null when it has to be detected. */
+  readonly dimension: number | null;
+  /** Prepare the backend (e.g. load a local model) outside the batch timeout. */
+  load?(): Promise<void>;
+  embed(texts: string[], signal: AbortSignal): Promise<number[][]>;
+}
+
+interface ProviderDefaults {
+  model: string;
+  url?: string;
+  batchSize: number;
+  timeoutMs: number;
+  workers: number;
+}
+
+// Every local worker loads its own copy of the model and onnxruntime already
+// spreads one inference over several cores, so stay well below the core count
+const DEFAULT_LOCAL_WORKERS = Math.min(4, Math.max(1, Math.floor((os.availableParallelism?.() ?? os.cpus().length) / 2)));
+
+const PROVIDER_DEFAULTS: Record<EmbeddingProviderName, ProviderDefaults> = {
+  transformers: { model: 'Xenova/all-MiniLM-L6-v2', batchSize: 16, timeoutMs: 120_000, workers: DEFAULT_LOCAL_WORKERS },
+  openai: { model: 'text-embedding-3-small', url: 'https://api.openai.com/v1', batchSize: 64, timeoutMs: 30_000, workers: 4 },
+  ollama: { model: 'nomic-embed-text', url: 'http://localhost:11434', batchSize: 32, timeoutMs: 60_000, workers: 2 }
+};
+
+/** Vector sizes of well-known models, so the index can be created without a probe request. */
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/all-MiniLM-L12-v2': 384,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+  'jinaai/jina-embeddings-v2-base-code': 768,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384
+};
 
-let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const TRANSFORMERS_REVISION = 'main';
 
-async function getExtractor(): Promise<FeatureExtractionPipeline> {
-  if (!extractorPromise) {
-    extractorPromise = pipeline('feature-extraction', MODEL_ID, {
-      revision: MODEL_REVISION
-    }) as Promise<FeatureExtractionPipeline>;
+let embeddingConfig: EmbeddingConfig = {};
+let provider: EmbeddingProvider | null = null;
+let detectedDimension: number | null = null;
+
+class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
   }
-  return extractorPromise;
 }
 
-export function getEmbeddingDimension(): number {
-  return EMBEDDING_DIMENSION;
+function createTransformersProvider(model: string): EmbeddingProvider {
+  let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+  const getExtractor = (): Promise<FeatureExtractionPipeline> => {
+    if (!extractorPromise) {
+      extractorPromise = pipeline('feature-extraction', model, {
+        revision: TRANSFORMERS_REVISION
+      }) as Promise<FeatureExtractionPipeline>;
+      // Let a failed download be retried by the next call
+      extractorPromise.catch(() => {
+        extractorPromise = null;
+      });
+    }
+    return extractorPromise;
+  };
+
+  return {
+    name: 'transformers',
+    model,
+    revision: TRANSFORMERS_REVISION,
+    dimension: KNOWN_DIMENSIONS[model] ?? null,
+    async load() {
+      await getExtractor();
+    },
+    async embed(texts) {
+      const extractor = await getExtractor();
+      const output = await extractor(texts, { pooling: 'mean', normalize: true });
+      if (output && typeof output === 'object' && 'tolist' in output) {
+        return (output as { tolist(): number[][] }).tolist();
+      }
+      throw new Error('Unexpected embedding output format from transformers pipeline');
+    }
+  };
 }
 
-export async function embedText(text: string): Promise<Float32Array> {
-  const extractor = await getExtractor();
-  const input = text.trim().length === 0 ? ' ' : text;
-  const output = await extractor(input, { pooling: 'mean', normalize: true });
+/**
+ * POST JSON to an embedding endpoint. Network failures, 429 and 5xx responses
+ * are retryable; other HTTP errors are not.
+ */
+async function postJson(url: string, body: unknown, signal: AbortSignal, headers: Record<string, string> = {}): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    throw new EmbeddingRequestError(`Embedding request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
 
-  if (output instanceof Float32Array) {
-    return output;
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 300);
+    throw new EmbeddingRequestError(
+      `Embedding request to ${url} failed with HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+      response.status === 429 || response.status >= 500
+    );
   }
+  return response.json();
+}
+
+function createOpenAiProvider(model: string, baseUrl: string, apiKey: string | undefined): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+  return {
+    name: 'openai',
+    model,
+    revision: null,
+    dimension: KNOWN_DIMENSIONS[model] ?? null,
+    async embed(texts, signal) {
+      const payload = (await postJson(url, { model, input: texts }, signal, apiKey ? { authorization: `Bearer ${apiKey}` } : {})) as {
+        data?: Array<{ index: number; embedding: number[] }>;
+      };
+      if (!Array.isArray(payload.data) || payload.data.length !== texts.length) {
+        throw new Error(`Unexpected response from ${url}: expected ${texts.length} embeddings`);
+      }
+      return [...payload.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    }
+  };
+}
+
+function createOllamaProvider(model: string, baseUrl: string): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/api/embed`;
+  return {
+    name: 'ollama',
+    model,
+    revision: null,
+    dimension: KNOWN_DIMENSIONS[model] ?? null,
+    async embed(texts, signal) {
+      const payload = (await postJson(url, { model, input: texts }, signal)) as { embeddings?: number[][] };
+      if (!Array.isArray(payload.embeddings) || payload.embeddings.length !== texts.length) {
+        throw new Error(`Unexpected response from ${url}: expected ${texts.length} embeddings`);
+      }
+      return payload.embeddings;
+    }
+  };
+}
 
-  if (Array.isArray(output)) {
-    return Float32Array.from(output.flat());
+function createProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const name = config.provider ?? 'transformers';
+  const defaults = PROVIDER_DEFAULTS[name];
+  if (!defaults) {
+    throw new Error(`Unknown embedding provider "${name}". Use one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
   }
+  const model = config.model ?? defaults.model;
 
-  if (typeof output === 'object' && output !== null && 'data' in output) {
-    const data = (output as { data: Float32Array | number[] }).data;
-    return data instanceof Float32Array ? data : Float32Array.from(data);
+  switch (name) {
+    case 'transformers':
+      return createTransformersProvider(model);
+    case 'openai':
+      return createOpenAiProvider(model, config.url ?? defaults.url!, config.apiKey ?? process.env.OPENAI_API_KEY);
+    case 'ollama':
+      return createOllamaProvider(model, config.url ?? defaults.url!);
   }
+}
 
-  throw new Error('Unexpected embedding output format from transformers pipeline');
+/**
+ * Select the embedding backend for this process. Indexes must be queried with
+ * the same provider and model they were built with.
+ */
+export function setEmbeddingConfig(config: EmbeddingConfig): void {
+  if (config.provider && !EMBEDDING_PROVIDERS.includes(config.provider)) {
+    throw new Error(`Unknown embedding provider "${config.provider}". Use one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+  embeddingConfig = config;
+  provider = null;
+  detectedDimension = null;
 }
 
-export async function embedBatch(texts: string[]): Promise<Float32Array[]> {
-  const extractor = await getExtractor();
-  const sanitized = texts.map((text) => (text.trim().length === 0 ? ' ' : text));
-  const outputs = await extractor(sanitized, { pooling: 'mean', normalize: true });
+export function getEmbeddingConfig(): EmbeddingConfig {
+  return embeddingConfig;
+}
 
-  if (Array.isArray(outputs)) {
-    return outputs.map((value) => {
-      if (value instanceof Float32Array) {
-        return value;
-      }
-      if (Array.isArray(value)) {
-        return Float32Array.from(value.flat());
-      }
-      if (value && typeof value === 'object' && 'data' in value) {
-        const data = (value as { data: Float32Array | number[] }).data;
-        return data instanceof Float32Array ? data : Float32Array.from(data);
-      }
-      throw new Error('Unexpected batched embedding output format');
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createProvider(embeddingConfig);
+  }
+  return provider;
+}
+
+/** Texts per batch for the configured provider. */
+export function getEmbeddingBatchSize(): number {
+  return Math.max(1, embeddingConfig.batchSize ?? PROVIDER_DEFAULTS[getEmbeddingProvider().name].batchSize);
+}
+
+/** Batches embedded in parallel while indexing. */
+export function getEmbeddingWorkers(): number {
+  return Math.max(1, Math.trunc(embeddingConfig.workers ?? PROVIDER_DEFAULTS[getEmbeddingProvider().name].workers));
+}
+
+/**
+ * Run one batch with a deadline, retrying retryable failures with
+ * exponential backoff.
+ */
+async function embedWithRetries(active: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  const timeoutMs = embeddingConfig.timeoutMs ?? PROVIDER_DEFAULTS[active.name].timeoutMs;
+  const retries = embeddingConfig.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new EmbeddingRequestError(`Embedding batch timed out after ${timeoutMs}ms`, true));
+      }, timeoutMs);
     });
+
+    try {
+      return await Promise.race([active.embed(texts, controller.signal), deadline]);
+    } catch (error) {
+      const retryable = error instanceof EmbeddingRequestError && error.retryable;
+      if (!retryable || attempt >= retries) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function normalize(vector: number[]): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (const value of result) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i += 1) {
+      result[i] /= norm;
+    }
+  }
+  return result;
+}
+
+/**
+ * Load the embedding model ahead of the first query, for long-running processes.
+ */
+export async function preloadEmbeddingModel(): Promise<void> {
+  await getEmbeddingProvider().load?.();
+}
+
+/**
+ * Vector size of the configured model: the configured `dimension`, the known
+ * size of the model, or the length of a probe embedding.
+ */
+export async function getEmbeddingDimension(): Promise<number> {
+  const active = getEmbeddingProvider();
+  const known = embeddingConfig.dimension ?? active.dimension ?? detectedDimension;
+  if (known) {
+    return known;
   }
+  const [probe] = await embedBatch(['dimension probe']);
+  detectedDimension = probe.length;
+  return detectedDimension;
+}
+
+export async function currentEmbeddingMetadata(): Promise<EmbeddingMetadata> {
+  const active = getEmbeddingProvider();
+  return {
+    provider: active.name,
+    model: active.model,
+    revision: active.revision,
+    dimension: await getEmbeddingDimension(),
+    chunkMaxLines: CHUNK_MAX_LINES,
+    chunkOverlapLines: CHUNK_OVERLAP_LINES,
+    chunkMaxChars: CHUNK_MAX_CHARS
+  };
+}
+
+/**
+ * The settings that decide which vectors a query gets, known without loading
+ * the model. Two processes embed alike when these match.
+ */
+export interface EmbeddingIdentity {
+  provider: EmbeddingProviderName;
+  model: string;
+  revision: string | null;
+  /** Endpoint of the OpenAI-compatible or Ollama backend. */
+  url: string | null;
+  /** Configured or known vector size. */
+  dimension: number | null;
+}
+
+export function currentEmbeddingIdentity(): EmbeddingIdentity {
+  const active = getEmbeddingProvider();
+  const url = active.name === 'transformers' ? null : (embeddingConfig.url ?? PROVIDER_DEFAULTS[active.name].url ?? null);
+  return {
+    provider: active.name,
+    model: active.model,
+    revision: active.revision,
+    url: url?.replace(/\/+$/, '') ?? null,
+    dimension: embeddingConfig.dimension ?? active.dimension
+  };
+}
+
+export function describeEmbedding(metadata: EmbeddingMetadata): string {
+  const revision = metadata.revision ? `@${metadata.revision}` : '';
+  return `${metadata.provider} ${metadata.model}${revision} (${metadata.dimension} dimensions)`;
+}
 
-  if (outputs instanceof Float32Array) {
-    return [outputs];
+/**
+ * Names of the fields that differ between two embedding setups.
+ */
+export function embeddingDifferences(a: EmbeddingMetadata, b: EmbeddingMetadata): string[] {
+  return (Object.keys(a) as Array<keyof EmbeddingMetadata>).filter((key) => a[key] !== b[key]);
+}
+
+/**
+ * Embed texts in batches of the configured size. Vectors are L2-normalized so
+ * distances are comparable across providers.
+ */
+export async function embedBatch(texts: string[]): Promise<Float32Array[]> {
+  if (!texts.length) {
+    return [];
   }
+  const active = getEmbeddingProvider();
+  await active.load?.();
+
+  const batchSize = getEmbeddingBatchSize();
+  const sanitized = texts.map((text) => (text.trim().length === 0 ? ' ' : text));
+  const vectors: Float32Array[] = [];
 
-  if (outputs && typeof outputs === 'object' && 'data' in outputs) {
-    const data = (outputs as { data: Float32Array | number[] }).data;
-    return [data instanceof Float32Array ? data : Float32Array.from(data)];
+  for (let i = 0; i < sanitized.length; i += batchSize) {
+    const batch = sanitized.slice(i, i + batchSize);
+    const embeddings = await embedWithRetries(active, batch);
+    if (embeddings.length !== batch.length) {
+      throw new Error(`Embedding provider returned ${embeddings.length} vectors for ${batch.length} texts`);
+    }
+    vectors.push(...embeddings.map(normalize));
   }
 
-  throw new Error('Unexpected embedding output format from transformers pipeline');
+  if (vectors.length) {
+    detectedDimension ??= vectors[0].length;
+  }
+  return vectors;
+}
+
+export async function embedText(text: string): Promise<Float32Array> {
+  const [vector] = await embedBatch([text]);
+  return vector;
 }
@@ -0,0 +1,396 @@
+import path from 'node:path';
+
+import { simpleGit } from 'simple-git';
+
+import { assertEmbeddingCompatible, getCommitTable, getSqliteDb } from './db.js';
+import { embedBatch, embedText } from './embed.js';
+import { escapeFilterValue, escapeLikePattern, fileExists, globToSqlPattern, hasGlobChars } from './util.js';
+
+export type LogMode = 'keyword' | 'semantic';
+
+export interface LogOptions {
+  mode?: LogMode;
+  repo?: string;
+  /** Only commits touching this directory, file or glob. */
+  path?: string;
+  /** Only commits at or after this time: an ISO date or a span such as `2 weeks` or `30d`. */
+  since?: string;
+  /** Case-insensitive substring of the author name or email. */
+  author?: string;
+  limit?: number;
+}
+
+export interface CommitResult {
+  repo: string;
+  sha: string;
+  author: string;
+  email: string;
+  committedMs: number;
+  subject: string;
+  message: string;
+  paths: string[];
+  snippet: string | null;
+  score: number;
+}
+
+export interface HistorySummary {
+  commitsIndexed: number;
+  /** True when the previously indexed head was not an ancestor and history was rebuilt. */
+  rebuilt: boolean;
+}
+
+interface ParsedCommit {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  committedMs: number;
+  message: string;
+  paths: string[];
+}
+
+interface CommitRow {
+  id: number;
+  repo: string;
+  sha: string;
+  author_name: string;
+  author_email: string;
+  committed_ms: number;
+  subject: string;
+  message: string;
+}
+
+/** Commits indexed the first time a repository's history is read, newest first. */
+export const HISTORY_MAX_COMMITS = 5000;
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const LOG_FORMAT = `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%ct${FIELD_SEPARATOR}%B${FIELD_SEPARATOR}`;
+const SEMANTIC_LOG_OVERFETCH = 5;
+const VECTOR_LOOKUP_BATCH = 200;
+
+const SPAN_UNITS_MS: Record<string, number> = {
+  h: 3600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+  m: 30 * 86_400_000,
+  y: 365 * 86_400_000
+};
+
+/**
+ * Parse `--since`: an ISO date, or a span back from now such as `2 weeks`,
+ * `30d` or `1 year ago`.
+ */
+export function parseSince(value: string, now: number = Date.now()): number {
+  const span = /^(\d+)\s*(h|hours?|d|days?|w|weeks?|m|months?|y|years?)(?:\s+ago)?$/i.exec(value.trim());
+  if (span) {
+    return now - Number(span[1]) * SPAN_UNITS_MS[span[2][0].toLowerCase()];
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid --since value "${value}". Use a date such as 2024-01-31 or a span such as "2 weeks".`);
+  }
+  return parsed;
+}
+
+function parseLog(output: string): ParsedCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [sha, authorName, authorEmail, timestamp, message, names = ''] = record.split(FIELD_SEPARATOR);
+      return {
+        sha: sha.trim(),
+        authorName,
+        authorEmail,
+        committedMs: Number(timestamp) * 1000,
+        message: message.trim(),
+        paths: names.split('\n').map((name) => name.trim()).filter(Boolean)
+      };
+    });
+}
+
+async function isAncestor(repoPath: string, ancestor: string, head: string): Promise<boolean> {
+  try {
+    // `merge-base --is-ancestor` reports through its exit code alone, which simple-git does not surface
+    return (await simpleGit(repoPath).raw(['merge-base', ancestor, head])).trim() === ancestor;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Vectors already stored for these commits under another repository name
+ * (e.g. another version of the same repository), keyed by SHA.
+ */
+async function storedCommitVectors(shas: string[]): Promise<Map<string, number[]>> {
+  const table = await getCommitTable();
+  const vectors = new Map<string, number[]>();
+  for (let i = 0; i < shas.length; i += VECTOR_LOOKUP_BATCH) {
+    const batch = shas.slice(i, i + VECTOR_LOOKUP_BATCH);
+    const rows = (await table
+      .query()
+      .where(`sha IN (${batch.map((sha) => `'${sha}'`).join(', ')})`)
+      .select(['sha', 'vector'])
+      .toArray()) as Array<{ sha: string; vector: Iterable<number> }>;
+    for (const row of rows) {
+      vectors.set(row.sha, Array.from(row.vector));
+    }
+  }
+  return vectors;
+}
+
+/**
+ * Index the commits of a git checkout that are not indexed yet. The first run
+ * reads the newest `HISTORY_MAX_COMMITS` commits; later runs only read commits
+ * added since the last indexed head, at most as many again. Directories that are not git repositories
+ * are skipped.
+ */
+export async function indexHistory(repo: string, repoPath: string): Promise<HistorySummary> {
+  if (!(await fileExists(path.join(repoPath, '.git')))) {
+    return { commitsIndexed: 0, rebuilt: false };
+  }
+
+  const git = simpleGit(repoPath);
+  let head: string;
+  try {
+    head = (await git.revparse(['HEAD'])).trim();
+  } catch {
+    // Repository without commits
+    return { commitsIndexed: 0, rebuilt: false };
+  }
+
+  const db = await getSqliteDb();
+  // Opened before reading the indexed head, which is reset if an outdated table had to be dropped
+  const commitTable = await getCommitTable();
+  const state = db.prepare('SELECT history_sha FROM repo_index WHERE repo = ?').get(repo) as { history_sha: string | null } | undefined;
+  const previousHead = state?.history_sha ?? null;
+  if (previousHead === head) {
+    return { commitsIndexed: 0, rebuilt: false };
+  }
+
+  const incremental = previousHead !== null && (await isAncestor(repoPath, previousHead, head));
+  const rebuilt = previousHead !== null && !incremental;
+  if (!incremental) {
+    db.prepare('DELETE FROM commit_meta WHERE repo = ?').run(repo);
+    db.prepare('DELETE FROM commit_fts WHERE repo = ?').run(repo);
+    await commitTable.delete(`repo = '${escapeFilterValue(repo)}'`);
+  }
+
+  const range = [`--max-count=${HISTORY_MAX_COMMITS}`, incremental ? `${previousHead}..${head}` : head];
+  const commits = parseLog(await git.raw(['log', LOG_FORMAT, '--name-only', '--no-renames', ...range]));
+
+  const reused = await storedCommitVectors(commits.map((commit) => commit.sha));
+  const missing = commits.filter((commit) => !reused.has(commit.sha));
+  const embeddings = await embedBatch(missing.map((commit) => commit.message));
+  missing.forEach((commit, index) => reused.set(commit.sha, Array.from(embeddings[index])));
+  const vectors = commits.map((commit) => ({
+    id: `${repo}:${commit.sha}`,
+    repo,
+    sha: commit.sha,
+    committed_ms: commit.committedMs,
+    vector: reused.get(commit.sha) as number[]
+  }));
+
+  const insertCommit = db.prepare(`
+    INSERT INTO commit_meta (repo, sha, author_name, author_email, committed_ms, subject, message)
+    VALUES (@repo, @sha, @authorName, @authorEmail, @committedMs, @subject, @message)
+    ON CONFLICT(repo, sha) DO NOTHING
+    RETURNING id
+  `);
+  const insertPath = db.prepare('INSERT INTO commit_paths (commit_id, path) VALUES (?, ?)');
+  const insertFts = db.prepare(`
+    INSERT INTO commit_fts (rowid, repo, message, author, paths)
+    VALUES (@id, @repo, @message, @author, @paths)
+  `);
+
+  const transaction = db.transaction(() => {
+    for (const commit of commits) {
+      const inserted = insertCommit.get({
+        ...commit,
+        repo,
+        subject: commit.message.split('\n')[0] ?? ''
+      }) as { id: number } | undefined;
+      if (!inserted) {
+        continue;
+      }
+      for (const commitPath of commit.paths) {
+        insertPath.run(inserted.id, commitPath);
+      }
+      insertFts.run({
+        id: inserted.id,
+        repo,
+        message: commit.message,
+        author: `${commit.authorName} ${commit.authorEmail}`,
+        paths: commit.paths.join('\n')
+      });
+    }
+    db.prepare('UPDATE repo_index SET history_sha = ? WHERE repo = ?').run(head, repo);
+  });
+  transaction();
+
+  if (vectors.length) {
+    await commitTable.add(vectors);
+  }
+
+  return { commitsIndexed: commits.length, rebuilt };
+}
+
+function toCommitResult(row: CommitRow, paths: string[], snippet: string | null, score: number): CommitResult {
+  return {
+    repo: row.repo,
+    sha: row.sha,
+    author: row.author_name,
+    email: row.author_email,
+    committedMs: row.committed_ms,
+    subject: row.subject,
+    message: row.message,
+    paths,
+    snippet,
+    score
+  };
+}
+
+/**
+ * SQL predicates over `commit_meta c` for the repo, path, since and author filters.
+ */
+function commitFilters(options: LogOptions): { clauses: string[]; params: Array<string | number> } {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (options.repo) {
+    clauses.push('c.repo = ?');
+    params.push(options.repo);
+  }
+  if (options.path) {
+    const target = options.path.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    if (hasGlobChars(target)) {
+      clauses.push("EXISTS (SELECT 1 FROM commit_paths cp WHERE cp.commit_id = c.id AND cp.path LIKE ? ESCAPE '\\')");
+      params.push(globToSqlPattern(target));
+    } else {
+      clauses.push("EXISTS (SELECT 1 FROM commit_paths cp WHERE cp.commit_id = c.id AND (cp.path = ? OR cp.path LIKE ? ESCAPE '\\'))");
+      params.push(target, `${escapeLikePattern(target)}/%`);
+    }
+  }
+  if (options.since) {
+    clauses.push('c.committed_ms >= ?');
+    params.push(parseSince(options.since));
+  }
+  if (options.author) {
+    clauses.push("(lower(c.author_name) LIKE ? ESCAPE '\\' OR lower(c.author_email) LIKE ? ESCAPE '\\')");
+    const pattern = `%${escapeLikePattern(options.author.toLowerCase())}%`;
+    params.push(pattern, pattern);
+  }
+
+  return { clauses, params };
+}
+
+async function commitPaths(ids: number[]): Promise<Map<number, string[]>> {
+  const db = await getSqliteDb();
+  const paths = new Map<number, string[]>();
+  if (!ids.length) {
+    return paths;
+  }
+  const rows = db
+    .prepare(`SELECT commit_id, path FROM commit_paths WHERE commit_id IN (${ids.map(() => '?').join(', ')})`)
+    .all(...ids) as Array<{ commit_id: number; path: string }>;
+  for (const row of rows) {
+    paths.set(row.commit_id, [...(paths.get(row.commit_id) ?? []), row.path]);
+  }
+  return paths;
+}
+
+/**
+ * Turn free text into an FTS5 query matching every word, so input such as
+ * `fix: crash` or `feat(api)` is not read as query syntax. A trailing `*`
+ * keeps a word a prefix search.
+ */
+function ftsTerms(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word))
+    .map((word) => {
+      const prefix = word.endsWith('*');
+      const text = prefix ? word.slice(0, -1) : word;
+      return `"${text.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+    });
+  return terms.length ? terms.join(' ') : null;
+}
+
+async function keywordLog(query: string, options: LogOptions): Promise<CommitResult[]> {
+  const terms = ftsTerms(query);
+  if (!terms) {
+    return [];
+  }
+  const db = await getSqliteDb();
+  const { clauses, params } = commitFilters(options);
+
+  const rows = db
+    .prepare(`
+      SELECT c.*,
+             snippet(commit_fts, 1, '[', ']', ' … ', 24) AS snippet,
+             bm25(commit_fts) AS bm25
+      FROM commit_fts
+      JOIN commit_meta c ON c.id = commit_fts.rowid
+      WHERE commit_fts MATCH ?
+      ${clauses.length ? `AND ${clauses.join(' AND ')}` : ''}
+      ORDER BY bm25, c.committed_ms DESC
+      LIMIT ?
+    `)
+    .all(terms, ...params, options.limit ?? 20) as Array<CommitRow & { snippet: string | null; bm25: number }>;
+
+  const paths = await commitPaths(rows.map((row) => row.id));
+  return rows.map((row) => toCommitResult(row, paths.get(row.id) ?? [], row.snippet, -row.bm25));
+}
+
+async function semanticLog(query: string, options: LogOptions): Promise<CommitResult[]> {
+  await assertEmbeddingCompatible();
+  const db = await getSqliteDb();
+  const limit = options.limit ?? 20;
+  const table = await getCommitTable();
+  const queryEmbedding = await embedText(query);
+
+  const where: string[] = [];
+  if (options.repo) {
+    where.push(`repo = '${escapeFilterValue(options.repo)}'`);
+  }
+  if (options.since) {
+    where.push(`committed_ms >= ${parseSince(options.since)}`);
+  }
+
+  let searchBuilder = table.vectorSearch(Array.from(queryEmbedding)).column('vector').select(['repo', 'sha']);
+  if (where.length) {
+    searchBuilder = searchBuilder.where(where.join(' AND '));
+  }
+  // Path and author filters run against SQLite, so fetch extra candidates
+  const candidates = (await searchBuilder.limit(limit * SEMANTIC_LOG_OVERFETCH).toArray()) as Array<{
+    repo: string;
+    sha: string;
+    _distance?: number;
+  }>;
+  if (!candidates.length) {
+    return [];
+  }
+
+  const { clauses, params } = commitFilters(options);
+  const keys = candidates.map(() => '(c.repo = ? AND c.sha = ?)').join(' OR ');
+  const rows = db
+    .prepare(`SELECT c.* FROM commit_meta c WHERE (${keys}) ${clauses.length ? `AND ${clauses.join(' AND ')}` : ''}`)
+    .all(...candidates.flatMap((candidate) => [candidate.repo, candidate.sha]), ...params) as CommitRow[];
+  const rowsByKey = new Map(rows.map((row) => [`${row.repo}:${row.sha}`, row]));
+
+  const matched = candidates
+    .map((candidate) => ({ row: rowsByKey.get(`${candidate.repo}:${candidate.sha}`), distance: candidate._distance ?? 0 }))
+    .filter((entry): entry is { row: CommitRow; distance: number } => !!entry.row)
+    .slice(0, limit);
+
+  const paths = await commitPaths(matched.map((entry) => entry.row.id));
+  return matched.map((entry) => toCommitResult(entry.row, paths.get(entry.row.id) ?? [], null, 1 / (1 + entry.distance)));
+}
+
+/**
+ * Search indexed commit messages by keyword (FTS5 over message, author and
+ * touched paths) or by meaning (message embeddings).
+ */
+export async function searchHistory(query: string, options: LogOptions = {}): Promise<CommitResult[]> {
+  return (options.mode ?? 'keyword') === 'semantic' ? semanticLog(query, options) : keywordLog(query, options);
+}
@@ -0,0 +1,291 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { simpleGit } from 'simple-git';
+
+import { REPO_IGNORE_FILE } from './config.js';
+import { globToRegExp } from './util.js';
+
+export interface IgnoreMatcherOptions {
+  /** Globs of paths to skip, such as the built-in excludes and `index.exclude`. */
+  globs?: string[];
+  /**
+   * Apply git's ignore rules: `.gitignore` in every directory, `.git/info/exclude`
+   * and the global excludes file. `.repogrepignore` applies either way.
+   */
+  gitignore?: boolean;
+}
+
+/**
+ * Decides which paths of a repository are indexed. Paths are relative to the
+ * repository root and `/`-separated.
+ */
+export interface IgnoreMatcher {
+  /** True when the path or one of the directories containing it is excluded. */
+  ignores(relativePath: string, isDirectory?: boolean): boolean;
+  /**
+   * Read the `.gitignore` of every directory from the root down to
+   * `relativeDir`; rules of unread directories do not apply yet.
+   */
+  loadDirectories(relativeDir: string): Promise<void>;
+}
+
+/** One line of a `.gitignore`-style file. */
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/** Rules of one ignore file; they match paths relative to `base` ('' or 'dir/'). */
+interface RuleSet {
+  base: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Parse one line in gitignore syntax. Patterns with a slash before the end are
+ * anchored to the directory of the ignore file; others match at any depth.
+ */
+function parseIgnoreLine(line: string): IgnoreRule | null {
+  // Trailing spaces are dropped unless escaped with a backslash
+  let pattern = line.replace(/\r$/, '').replace(/(?<!\\)[ \t]+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+  pattern = pattern.replace(/\\ /g, ' ');
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) {
+    return null;
+  }
+
+  return { regex: globToRegExp(anchored ? pattern : `**/${pattern}`), negated, directoryOnly };
+}
+
+async function readRuleSet(filePath: string, base: string): Promise<RuleSet | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+  const rules = text
+    .split('\n')
+    .map(parseIgnoreLine)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+  return rules.length ? { base, rules } : null;
+}
+
+/** `core.excludesFile`, or git's default of `$XDG_CONFIG_HOME/git/ignore`. */
+async function globalExcludesFile(repoDir: string): Promise<string> {
+  try {
+    const configured = (await simpleGit(repoDir).raw(['config', '--path', 'core.excludesFile'])).trim();
+    if (configured) {
+      return path.resolve(repoDir, configured);
+    }
+  } catch {
+    // Unset, or git is not installed
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'git', 'ignore');
+}
+
+function parentDirectories(relativePath: string): string[] {
+  const parts = relativePath.split('/');
+  return parts.slice(0, -1).map((_, index) => parts.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Build the matcher for a repository. `.git` is always excluded. Rules follow git's precedence: the
+ * global excludes file, then `.git/info/exclude`, then `.gitignore` files from
+ * the root down, with the last matching rule deciding and `!` re-including.
+ * `.repogrepignore` at the root is consulted last. As in git, nothing inside
+ * an excluded directory can be re-included.
+ */
+export async function createIgnoreMatcher(repoDir: string, options: IgnoreMatcherOptions = {}): Promise<IgnoreMatcher> {
+  const globs = (options.globs ?? []).map((pattern) => globToRegExp(pattern));
+  const useGitignore = options.gitignore ?? true;
+
+  const baseSets: RuleSet[] = [];
+  if (useGitignore) {
+    for (const filePath of [await globalExcludesFile(repoDir), path.join(repoDir, '.git', 'info', 'exclude')]) {
+      const rules = await readRuleSet(filePath, '');
+      if (rules) {
+        baseSets.push(rules);
+      }
+    }
+  }
+  const repogrepIgnore = await readRuleSet(path.join(repoDir, REPO_IGNORE_FILE), '');
+
+  // .gitignore rules by directory ('' for the root); null when it has none
+  const directorySets = new Map<string, RuleSet | null>();
+  const ignoredDirectories = new Map<string, boolean>();
+
+  const matchRules = (relativePath: string, isDirectory: boolean): boolean => {
+    if (path.posix.basename(relativePath) === '.git') {
+      return true;
+    }
+    if (globs.some((regex) => regex.test(relativePath) || (isDirectory && regex.test(`${relativePath}/`)))) {
+      return true;
+    }
+    const sets = [...baseSets];
+    for (const directory of ['', ...parentDirectories(relativePath)]) {
+      const rules = directorySets.get(directory);
+      if (rules) {
+        sets.push(rules);
+      }
+    }
+    if (repogrepIgnore) {
+      sets.push(repogrepIgnore);
+    }
+
+    let ignored = false;
+    for (const { base, rules } of sets) {
+      const candidate = relativePath.slice(base.length);
+      for (const rule of rules) {
+        if ((!rule.directoryOnly || isDirectory) && rule.regex.test(candidate)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+    return ignored;
+  };
+
+  const isIgnoredDirectory = (directory: string): boolean => {
+    let ignored = ignoredDirectories.get(directory);
+    if (ignored === undefined) {
+      ignored = matchRules(directory, true);
+      ignoredDirectories.set(directory, ignored);
+    }
+    return ignored;
+  };
+
+  const matcher: IgnoreMatcher = {
+    ignores(relativePath, isDirectory = false) {
+      return parentDirectories(relativePath).some(isIgnoredDirectory) || matchRules(relativePath, isDirectory);
+    },
+    async loadDirectories(relativeDir) {
+      if (!useGitignore) {
+        return;
+      }
+      const directories = relativeDir ? ['', ...parentDirectories(`${relativeDir}/`)] : [''];
+      for (const directory of directories) {
+        if (directorySets.has(directory)) {
+          continue;
+        }
+        const base = directory ? `${directory}/` : '';
+        directorySets.set(directory, await readRuleSet(path.join(repoDir, directory, '.gitignore'), base));
+        // Verdicts below this directory may change
+        for (const cached of ignoredDirectories.keys()) {
+          if (cached.startsWith(base)) {
+            ignoredDirectories.delete(cached);
+          }
+        }
+      }
+    }
+  };
+
+  await matcher.loadDirectories('');
+  return matcher;
+}
+
+/** Visit the kept directories and files below `startDir`, parents first. */
+async function walkTree(
+  repoDir: string,
+  matcher: IgnoreMatcher,
+  startDir: string,
+  onDirectory: (relativeDir: string) => void,
+  onFile: (relativePath: string) => void
+): Promise<void> {
+  const visit = async (directory: string): Promise<void> => {
+    await matcher.loadDirectories(directory);
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(repoDir, directory), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    onDirectory(directory);
+
+    for (const entry of entries) {
+      const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      if (entry.isSymbolicLink()) {
+        const stats = await fs.stat(path.join(repoDir, relativePath)).catch(() => null);
+        isFile = stats?.isFile() ?? false;
+        isDirectory = false;
+      }
+
+      if (isDirectory && !matcher.ignores(relativePath, true)) {
+        await visit(relativePath);
+      } else if (isFile && !matcher.ignores(relativePath)) {
+        onFile(relativePath);
+      }
+    }
+  };
+
+  await visit(startDir);
+}
+
+/**
+ * Files below `startDir` ('' for the whole repository) that the matcher keeps.
+ * Excluded directories are not entered, each directory's `.gitignore` is read
+ * before its entries are matched, and symlinked directories are not followed.
+ */
+export async function walkRepository(repoDir: string, matcher: IgnoreMatcher, startDir = ''): Promise<string[]> {
+  const files: string[] = [];
+  await walkTree(repoDir, matcher, startDir, () => {}, (relativePath) => files.push(relativePath));
+  return files;
+}
+
+/**
+ * `startDir` and the directories below it that the matcher keeps, in the
+ * order `walkRepository` enters them. Empty when `startDir` does not exist.
+ */
+export async function walkDirectories(repoDir: string, matcher: IgnoreMatcher, startDir = ''): Promise<string[]> {
+  const directories: string[] = [];
+  await walkTree(repoDir, matcher, startDir, (relativeDir) => directories.push(relativeDir), () => {});
+  return directories;
+}
+
+/**
+ * Files git tracks in the work tree at `repoDir` (`git ls-files`), minus
+ * those deleted from disk, submodules and the matcher's exclusions.
+ */
+export async function listTrackedFiles(repoDir: string, matcher: IgnoreMatcher): Promise<string[]> {
+  let output: string;
+  try {
+    output = await simpleGit(repoDir).raw(['ls-files', '-z']);
+  } catch (error) {
+    throw new Error(
+      `Cannot list the files git tracks in ${repoDir}: ${error instanceof Error ? error.message.trim() : String(error)}`
+    );
+  }
+
+  const files: string[] = [];
+  for (const relativePath of output.split('\0')) {
+    if (!relativePath || matcher.ignores(relativePath)) {
+      continue;
+    }
+    const stats = await fs.stat(path.join(repoDir, relativePath)).catch(() => null);
+    if (stats?.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,241 @@
+import path from 'node:path';
+
+import {
+  globFiles,
+  grepFiles,
+  listDirectory,
+  readIndexedFile,
+  type GlobMatch,
+  type GlobOptions,
+  type GrepFileResult,
+  type GrepOptions,
+  type LsEntry,
+  type LsOptions,
+  type ReadOptions,
+  type ReadResult
+} from './browse.js';
+import { closeDatabases, listRepoIndex, type RepoIndexRow } from './db.js';
+import {
+  addRepository,
+  indexRepository,
+  pinRepository,
+  reembedIndex,
+  removeRepository,
+  syncRepositories,
+  type AddOptions,
+  type IndexOptions,
+  type IndexSummary,
+  type ReembedSummary,
+  type RemoveSummary,
+  type SyncOptions,
+  type SyncResult
+} from './indexer.js';
+import { search, type SearchMode, type SearchOptions, type SearchResult } from './search.js';
+import { findReferences, type ReferenceOptions, type SymbolReference } from './references.js';
+import { searchHistory, type CommitResult, type LogOptions } from './history.js';
+import { findDefinitions, findSymbols, type SymbolQueryOptions, type SymbolRecord } from './symbols.js';
+import { DATA_DIR, ensureDataLayout, setDataDir } from './util.js';
+import { getEmbeddingConfig, setEmbeddingConfig, type EmbeddingConfig } from './embed.js';
+import {
+  getEmbeddingCacheStats,
+  pruneEmbeddingCache,
+  type EmbeddingCachePruneSummary,
+  type EmbeddingCacheStats
+} from './embed-cache.js';
+
+export * from './browse.js';
+export { closeDatabases, getEmbeddingMetadata, listRepoIndex, migrateDatabase, type FileMetaRow, type RepoIndexRow } from './db.js';
+export { MIGRATIONS, SCHEMA_VERSION, type Migration, type MigrationStep, type MigrationSummary } from './migrations.js';
+export * from './indexer.js';
+export type { MatchLocation, SearchMatch } from './matches.js';
+export { attachMatches, hybridSearch, keywordSearch, search, semanticSearch } from './search.js';
+export { languageExtensions, parseQuery, type ParsedQuery, type QueryFilters } from './query.js';
+export { DEFAULT_FUSION, DEFAULT_RRF_K, FUSION_STRATEGIES, SEARCH_MODES } from './search.js';
+export type { FusionStrategy, SearchMode, SearchOptions, SearchResult } from './search.js';
+export { blameFile, type BlameInfo } from './blame.js';
+export * from './references.js';
+export * from './history.js';
+export * from './symbols.js';
+export * from './versions.js';
+export { watchRepository, type RepositoryWatcher, type WatchOptions } from './watch.js';
+export { createIgnoreMatcher, listTrackedFiles, walkRepository, type IgnoreMatcher, type IgnoreMatcherOptions } from './ignore.js';
+export { DEFAULT_DATA_DIR, setDataDir } from './util.js';
+export {
+  REPO_CONFIG_FILE,
+  REPO_IGNORE_FILE,
+  SETTINGS,
+  SETTING_KEYS,
+  embeddingConfigFrom,
+  globalConfigPath,
+  parseSetting,
+  resolveConfig,
+  resolveIndexFilters,
+  settingEnvVar,
+  settingValues,
+  writeSetting,
+  type ConfigSource,
+  type IndexFilters,
+  type ResolveConfigOptions,
+  type ResolvedConfig,
+  type ResolvedSetting,
+  type SettingKey,
+  type Settings
+} from './config.js';
+export {
+  getEmbeddingCacheStats,
+  pruneEmbeddingCache,
+  type EmbeddingCacheModelStats,
+  type EmbeddingCachePruneSummary,
+  type EmbeddingCacheStats
+} from './embed-cache.js';
+export {
+  EMBEDDING_PROVIDERS,
+  currentEmbeddingMetadata,
+  describeEmbedding,
+  embedBatch,
+  embedText,
+  getEmbeddingConfig,
+  setEmbeddingConfig,
+  type EmbeddingConfig,
+  type EmbeddingMetadata,
+  type EmbeddingProvider,
+  type EmbeddingProviderName
+} from './embed.js';
+
+export interface RepoGrepOptions {
+  /** Directory holding the index and cached repositories (default `~/.repogrep`). */
+  dataDir?: string;
+  /** Embedding backend and model (default: transformers.js with all-MiniLM-L6-v2). */
+  embedding?: EmbeddingConfig;
+}
+
+export interface ClientSearchOptions extends SearchOptions {
+  mode?: SearchMode;
+}
+
+/**
+ * Typed entry point for using repogrep as a library.
+ *
+ * The data directory is process-wide: creating a client with a different
+ * `dataDir` closes the open database handles and switches every client over.
+ * The embedding backend is process-wide in the same way.
+ */
+export class RepoGrep {
+  readonly dataDir: string;
+  readonly embedding: EmbeddingConfig | undefined;
+
+  constructor(options: RepoGrepOptions = {}) {
+    this.dataDir = path.resolve(options.dataDir ?? DATA_DIR);
+    this.embedding = options.embedding;
+  }
+
+  private async use(): Promise<void> {
+    if (DATA_DIR !== this.dataDir) {
+      await closeDatabases();
+      setDataDir(this.dataDir);
+    }
+    if (this.embedding && getEmbeddingConfig() !== this.embedding) {
+      setEmbeddingConfig(this.embedding);
+    }
+    await ensureDataLayout();
+  }
+
+  async indexRepository(repoPath: string, options: IndexOptions = {}): Promise<IndexSummary> {
+    await this.use();
+    const absolutePath = path.resolve(repoPath);
+    return indexRepository(absolutePath, { source: absolutePath, progress: false, ...options });
+  }
+
+  async addRepository(repoUrl: string, options: Omit<AddOptions, 'progress'> = {}): Promise<IndexSummary> {
+    await this.use();
+    return addRepository(repoUrl, { ...options, progress: false });
+  }
+
+  /** Pin a repository to a branch, tag or commit, or pass null to follow the default branch. */
+  async pin(repo: string, ref: string | null): Promise<IndexSummary> {
+    await this.use();
+    return pinRepository(repo, ref, { progress: false });
+  }
+
+  async sync(options: SyncOptions = {}): Promise<SyncResult[]> {
+    await this.use();
+    return syncRepositories({ progress: false, ...options });
+  }
+
+  /** Regenerate every vector with this client's embedding model. */
+  async reembed(): Promise<ReembedSummary> {
+    await this.use();
+    return reembedIndex({ progress: false });
+  }
+
+  async cacheStats(): Promise<EmbeddingCacheStats> {
+    await this.use();
+    return getEmbeddingCacheStats();
+  }
+
+  /** Drop cached embeddings of content no indexed file has anymore. */
+  async pruneCache(): Promise<EmbeddingCachePruneSummary> {
+    await this.use();
+    return pruneEmbeddingCache();
+  }
+
+  async removeRepository(repo: string): Promise<RemoveSummary> {
+    await this.use();
+    return removeRepository(repo);
+  }
+
+  async listRepositories(): Promise<RepoIndexRow[]> {
+    await this.use();
+    return listRepoIndex();
+  }
+
+  async search(query: string, options: ClientSearchOptions = {}): Promise<SearchResult[]> {
+    await this.use();
+    const { mode = 'keyword', ...searchOptions } = options;
+    return search(query, mode, searchOptions);
+  }
+
+  async symbols(query?: string, options: SymbolQueryOptions = {}): Promise<SymbolRecord[]> {
+    await this.use();
+    return findSymbols(query, options);
+  }
+
+  async def(name: string, options: Omit<SymbolQueryOptions, 'exact'> = {}): Promise<SymbolRecord[]> {
+    await this.use();
+    return findDefinitions(name, options);
+  }
+
+  async refs(name: string, options: ReferenceOptions = {}): Promise<SymbolReference[]> {
+    await this.use();
+    return findReferences(name, options);
+  }
+
+  async log(query: string, options: LogOptions = {}): Promise<CommitResult[]> {
+    await this.use();
+    return searchHistory(query, options);
+  }
+
+  async grep(pattern: string, options: GrepOptions = {}): Promise<GrepFileResult[]> {
+    await this.use();
+    return grepFiles(pattern, options);
+  }
+
+  async read(repo: string, filePath: string, options: ReadOptions = {}): Promise<ReadResult | null> {
+    await this.use();
+    return readIndexedFile(repo, filePath, options);
+  }
+
+  async ls(dirPath?: string, options: LsOptions = {}): Promise<LsEntry[]> {
+    await this.use();
+    return listDirectory(dirPath, options);
+  }
+
+  async glob(pattern: string, options: GlobOptions = {}): Promise<GlobMatch[]> {
+    await this.use();
+    return globFiles(pattern, options);
+  }
+
+  async close(): Promise<void> {
+    await closeDatabases();
+  }
+}
@@ -2,28 +2,59 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 
 import cliProgress from 'cli-progress';
-import fg from 'fast-glob';
 import { simpleGit } from 'simple-git';
 
-import { getLanceTable, getSqliteDb, upsertRepoIndex, deleteFromLanceTable, addToLanceTable, type FileMetaRow } from './db.js';
-import { embedText } from './embed.js';
+import { chunkText, segmentText, type TextChunk } from './chunk.js';
 import {
-  DEFAULT_IGNORE_PATTERNS,
-  MAX_INDEXED_BYTES,
+  getSqliteDb,
+  getLanceTable,
+  listRepoIndex,
+  upsertRepoIndex,
+  deleteFromLanceTable,
+  addToLanceTable,
+  findChunkVectorsByHash,
+  resetRepoData,
+  setRepoPin,
+  assertEmbeddingCompatible,
+  activateStagedVectorTables,
+  createStagedVectorTables,
+  discardStagedVectorTables,
+  getEmbeddingMetadata,
+  type FileMetaRow,
+  type StagedVectorTables,
+  type RepoIndexRow
+} from './db.js';
+import { currentEmbeddingMetadata, embedBatch, type EmbeddingMetadata } from './embed.js';
+import { createEmbeddingPool } from './embed-pool.js';
+import { embeddingCacheKey, readEmbeddingCache, recordEmbeddingCacheLookups, writeEmbeddingCache } from './embed-cache.js';
+import { resolveIndexFilters } from './config.js';
+import { createIgnoreMatcher, listTrackedFiles, walkRepository, type IgnoreMatcher } from './ignore.js';
+import { indexHistory } from './history.js';
+import { extractSymbols, type ExtractedSymbol } from './symbols.js';
+import {
+  BoundedQueue,
+  directorySize,
   ensureDataLayout,
+  escapeFilterValue,
   fileExists,
   getFilename,
   hashBuffer,
   isBinaryBuffer,
-  loadGitignorePatterns,
+  globToRegExp,
+  mapWithConcurrency,
   normalizeRepoName,
   resolveRepoPath,
   safeRepoNameFromPath
 } from './util.js';
+import { parseRepoVersion, versionedRepoName } from './versions.js';
 
 export interface CloneResult {
   repo: string;
   repoPath: string;
+  /** Requested branch, tag or commit, or null for the remote's default branch. */
+  ref: string | null;
+  /** Commit that was checked out. */
+  commitSha: string;
 }
 
 export interface IndexSummary {
@@ -33,71 +64,234 @@ export interface IndexSummary {
   filesIndexed: number;
   filesDeleted: number;
   filesSkippedBinary: number;
+  /** Files over `index.maxFileBytes`. */
+  filesSkippedLarge: number;
   filesSkippedUnchanged: number;
+  /** Chunks sent to the embedding model. */
+  chunksEmbedded: number;
+  /** Chunk vectors copied from identical content instead of being embedded. */
+  chunksReused: number;
+  /** New commits added to the history index. */
+  commitsIndexed: number;
+  /** Files scanned per second over the whole run. */
+  filesPerSecond: number;
+  /** Chunks embedded per second over the whole run. */
+  embeddingsPerSecond: number;
   durationMs: number;
 }
 
+export interface RemoveSummary {
+  repo: string;
+  repoPath: string;
+  bytesFreed: number;
+}
+
 export interface IndexOptions {
   repo?: string;
   source?: string | null;
+  /** Globs of files to index; replaces the configured `index.include`. */
   patterns?: string[];
+  /** Globs to skip; replaces the built-in excludes and the configured `index.exclude`. */
   ignore?: string[];
+  /** Globs to skip on top of the configured ones. */
+  exclude?: string[];
+  /** Files larger than this are skipped; replaces the configured `index.maxFileBytes`. */
+  maxFileBytes?: number;
+  /** Index exactly the files git tracks; replaces the configured `index.gitFiles`. */
+  gitFiles?: boolean;
+  force?: boolean;
+  progress?: boolean;
+  /** Only (re)index these repo-relative paths; files elsewhere keep their records. */
+  paths?: string[];
+}
+
+export interface SyncOptions {
+  repos?: string[];
+  concurrency?: number;
   force?: boolean;
+  progress?: boolean;
+  onResult?: (result: SyncResult) => void;
+}
+
+export interface SyncResult {
+  repo: string;
+  source: string | null;
+  status: 'ok' | 'failed';
+  summary: IndexSummary | null;
+  error: string | null;
+  durationMs: number;
+}
+
+interface EmbeddedChunk {
+  chunk: Pick<TextChunk, 'index' | 'startLine' | 'endLine'>;
+  embedding: Float32Array;
+}
+
+interface ReadFile {
+  meta: FileMetaRow;
+  contents: string;
+}
+
+interface PendingUpdate extends ReadFile {
+  chunks: EmbeddedChunk[];
+  symbols: ExtractedSymbol[];
 }
 
+const READ_CONCURRENCY = 8;
+/** Files read and hashed ahead of the embedding stage. */
+const READ_AHEAD_FILES = 64;
+/** Files written to SQLite and LanceDB per transaction. */
+const INDEX_WRITE_BATCH = 200;
+
 const VECTOR_ID_SEPARATOR = ':';
+const CHUNK_ID_SEPARATOR = '#';
+
+function toVectorId(repo: string, filePath: string, chunkIndex: number): string {
+  return `${repo}${VECTOR_ID_SEPARATOR}${filePath}${CHUNK_ID_SEPARATOR}${chunkIndex}`;
+}
+
+function fileVectorFilter(repo: string, filePaths: string[]): string {
+  return `repo = '${escapeFilterValue(repo)}' AND path IN (${filePaths.map((filePath) => `'${escapeFilterValue(filePath)}'`).join(', ')})`;
+}
 
-function toVectorId(repo: string, filePath: string): string {
-  return `${repo}${VECTOR_ID_SEPARATOR}${filePath}`;
+function vectorRows(meta: FileMetaRow, chunks: EmbeddedChunk[]): Record<string, unknown>[] {
+  return chunks.map(({ chunk, embedding }) => ({
+    id: toVectorId(meta.repo, meta.path, chunk.index),
+    repo: meta.repo,
+    path: meta.path,
+    filename: meta.filename,
+    mtime_ms: meta.mtime_ms,
+    size_bytes: meta.size_bytes,
+    hash: meta.hash,
+    chunk_index: chunk.index,
+    start_line: chunk.startLine,
+    end_line: chunk.endLine,
+    vector: Array.from(embedding)
+  }));
 }
 
-function escapeFilterValue(value: string): string {
-  return value.replace(/\\/g, '\\\\').replace(/'/g, "''");
+async function storedChunks(hash: string): Promise<EmbeddedChunk[] | null> {
+  const stored = await findChunkVectorsByHash(hash);
+  return (
+    stored?.map((row) => ({
+      chunk: { index: row.chunk_index, startLine: row.start_line, endLine: row.end_line },
+      embedding: Float32Array.from(row.vector)
+    })) ?? null
+  );
+}
+
+/**
+ * Files the matcher keeps among repo-relative paths: files stand for
+ * themselves, directories for everything below them, and paths that no longer
+ * exist for nothing.
+ */
+async function scopedFiles(repoPath: string, matcher: IgnoreMatcher, paths: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const entry of paths) {
+    const stats = await fs.stat(path.join(repoPath, entry)).catch(() => null);
+    if (!stats) {
+      // Deleted paths are picked up by the removal pass
+      continue;
+    }
+    const parent = path.posix.dirname(entry);
+    await matcher.loadDirectories(parent === '.' ? '' : parent);
+    if (stats.isDirectory() && !matcher.ignores(entry, true)) {
+      for (const file of await walkRepository(repoPath, matcher, entry)) {
+        files.add(file);
+      }
+    } else if (stats.isFile() && !matcher.ignores(entry)) {
+      files.add(entry);
+    }
+  }
+  return Array.from(files);
 }
 
-export async function cloneOrUpdateRepo(repoUrl: string, repoName?: string): Promise<CloneResult> {
+/**
+ * Resolve a branch, tag or (short) commit SHA to a full commit SHA, preferring
+ * the remote-tracking branch so branch pins follow upstream.
+ */
+async function resolveRef(repoPath: string, ref: string): Promise<string> {
+  const repoGit = simpleGit(repoPath);
+  for (const candidate of [`refs/remotes/origin/${ref}`, `refs/tags/${ref}`, ref]) {
+    try {
+      const sha = (await repoGit.raw(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`])).trim();
+      if (sha) {
+        return sha;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error(`Unknown ref "${ref}": not a branch, tag or commit of the remote`);
+}
+
+async function resolveDefaultBranch(repoPath: string): Promise<string> {
+  const repoGit = simpleGit(repoPath);
+  const remoteHead = async () => (await repoGit.raw(['rev-parse', '--verify', '--quiet', 'refs/remotes/origin/HEAD^{commit}'])).trim();
+  try {
+    return await remoteHead();
+  } catch {
+    // Clones can lack refs/remotes/origin/HEAD; ask the remote for it
+    await repoGit.raw(['remote', 'set-head', 'origin', '--auto']);
+    return remoteHead();
+  }
+}
+
+/**
+ * Clone a repository, or fetch an existing clone, and check out `ref` (or the
+ * remote's default branch) as a detached HEAD. Nothing is reset: a checkout
+ * with local changes that would be overwritten fails instead.
+ */
+export async function cloneOrUpdateRepo(repoUrl: string, repoName?: string, ref?: string | null): Promise<CloneResult> {
   await ensureDataLayout();
   const name = repoName ?? normalizeRepoName(repoUrl);
   const targetPath = resolveRepoPath(name);
   const exists = await fileExists(targetPath);
 
-  const gitClient = simpleGit();
-
   if (!exists) {
-    await gitClient.clone(repoUrl, targetPath);
-  } else {
-    const repoGit = simpleGit(targetPath);
-    await repoGit.fetch();
-    try {
-      await repoGit.pull();
-    } catch (error) {
-      // Attempt fast-forward pull first; if it fails, reset hard to origin/main
-      await repoGit.raw(['reset', '--hard', 'HEAD']);
-      await repoGit.pull();
-    }
+    await simpleGit().clone(repoUrl, targetPath);
   }
 
-  return { repo: name, repoPath: targetPath };
+  const repoGit = simpleGit(targetPath);
+  if (exists) {
+    await repoGit.fetch(['origin', '--tags', '--prune', '--force']);
+  }
+
+  const target = ref ? await resolveRef(targetPath, ref) : await resolveDefaultBranch(targetPath);
+  await repoGit.raw(['checkout', '--detach', target]);
+  const commitSha = (await repoGit.revparse(['HEAD'])).trim();
+
+  return { repo: name, repoPath: targetPath, ref: ref ?? null, commitSha };
 }
 
 export async function indexRepository(repoPath: string, options: IndexOptions = {}): Promise<IndexSummary> {
   const startTime = Date.now();
   await ensureDataLayout();
+  // New vectors must be comparable with the stored ones
+  await assertEmbeddingCompatible({ record: true });
+  const cacheKey = embeddingCacheKey(await currentEmbeddingMetadata());
 
   const repoName = options.repo ?? safeRepoNameFromPath(repoPath);
-  const patterns = options.patterns ?? ['**/*'];
-  const defaultIgnore = options.ignore ?? DEFAULT_IGNORE_PATTERNS;
-  const gitignorePatterns = await loadGitignorePatterns(repoPath);
-  const ignore = [...defaultIgnore, ...gitignorePatterns];
+  const scopedPaths = options.paths?.map((entry) => entry.replace(/\\/g, '/').replace(/\/+$/, ''));
+  const filters = await resolveIndexFilters(repoPath, options);
   const force = options.force ?? false;
-
-  const entries = await fg(patterns, {
-    cwd: repoPath,
-    ignore,
-    dot: true,
-    onlyFiles: true,
-    unique: true
-  });
+  const showProgress = options.progress ?? true;
+
+  const isInScope = (filePath: string): boolean =>
+    !scopedPaths || scopedPaths.some((entry) => filePath === entry || filePath.startsWith(`${entry}/`));
+
+  // Tracked files are indexed even when ignored, as git does
+  const matcher = await createIgnoreMatcher(repoPath, { globs: filters.ignore, gitignore: !filters.gitFiles });
+  let entries: string[];
+  if (filters.gitFiles) {
+    entries = (await listTrackedFiles(repoPath, matcher)).filter(isInScope);
+  } else if (scopedPaths) {
+    entries = await scopedFiles(repoPath, matcher, scopedPaths);
+  } else {
+    entries = await walkRepository(repoPath, matcher);
+  }
+  const included = filters.patterns.map((pattern) => globToRegExp(pattern));
+  entries = entries.filter((entry) => included.some((regex) => regex.test(entry)));
 
   const targetRepoDir = resolveRepoPath(repoName);
   const resolvedRepoPath = path.resolve(repoPath);
@@ -109,25 +303,28 @@ export async function indexRepository(repoPath: string, options: IndexOptions =
   }
 
   const db = await getSqliteDb();
+  // Opening the vector table first clears the stored hashes if an outdated table had to be dropped
+  await getLanceTable();
 
-  const existingRecords = db
+  const existingRecords = (db
     .prepare('SELECT id, path, hash FROM file_meta WHERE repo = ?')
-    .all(repoName) as Array<{ id: number; path: string; hash: string }>;
+    .all(repoName) as Array<{ id: number; path: string; hash: string }>)
+    .filter((row) => isInScope(row.path));
 
   const existingByPath = new Map(existingRecords.map((row) => [row.path, row]));
   const seenPaths = new Set<string>();
-  const pendingUpdates: Array<{
-    meta: FileMetaRow;
-    contents: string;
-    embedding: Float32Array;
-  }> = [];
   const removedRecords: Array<{ id: number; path: string }> = [];
   let binarySkipped = 0;
+  let largeSkipped = 0;
   let unchangedSkipped = 0;
+  let chunksReused = 0;
+  let chunksEmbedded = 0;
+  let cacheHits = 0;
+  let cacheMisses = 0;
 
   // Initialize progress bar
   let progressBar: cliProgress.SingleBar | null = null;
-  if (entries.length > 0) {
+  if (entries.length > 0 && showProgress) {
     progressBar = new cliProgress.SingleBar({
       format: '[{bar}] {percentage}% | {value}/{total} files | Current: {filename} | Indexed: {indexed} Skipped: {skipped} Binary: {binary}',
       barCompleteChar: '\u2588',
@@ -146,98 +343,15 @@ export async function indexRepository(repoPath: string, options: IndexOptions =
   let processedCount = 0;
   let indexedCount = 0;
 
-  for (const relativePath of entries) {
-    const absolutePath = path.join(repoPath, relativePath);
-    const buffer = await fs.readFile(absolutePath);
-
-    if (shouldCopyFiles) {
-      const targetFilePath = path.join(targetRepoDir, relativePath);
-      const targetFileDir = path.dirname(targetFilePath);
-      await fs.mkdir(targetFileDir, { recursive: true });
-      await fs.copyFile(absolutePath, targetFilePath);
-    }
-
-    if (isBinaryBuffer(buffer)) {
-      binarySkipped += 1;
-      processedCount += 1;
-      if (progressBar) {
-        progressBar.update(processedCount, {
-          filename: relativePath.length > 40 ? '...' + relativePath.slice(-37) : relativePath,
-          indexed: indexedCount,
-          skipped: unchangedSkipped,
-          binary: binarySkipped
-        });
-      }
-      continue;
-    }
-
-    const stats = await fs.stat(absolutePath);
-    const contents = buffer.toString('utf8', 0, MAX_INDEXED_BYTES);
-    const hash = hashBuffer(buffer);
-    const filename = getFilename(relativePath);
-
-    seenPaths.add(relativePath);
-
-    const existing = existingByPath.get(relativePath);
-    if (existing && existing.hash === hash && !force) {
-      unchangedSkipped += 1;
-      processedCount += 1;
-      if (progressBar) {
-        progressBar.update(processedCount, {
-          filename: relativePath.length > 40 ? '...' + relativePath.slice(-37) : relativePath,
-          indexed: indexedCount,
-          skipped: unchangedSkipped,
-          binary: binarySkipped
-        });
-      }
-      continue;
-    }
-
-    const embedding = await embedText(contents);
-
-    const meta: FileMetaRow = {
-      repo: repoName,
-      path: relativePath,
-      filename,
-      mtime_ms: Math.trunc(stats.mtimeMs ?? stats.mtime.getTime()),
-      size_bytes: stats.size,
-      hash
-    };
-
-    pendingUpdates.push({
-      meta,
-      contents,
-      embedding
-    });
-
-    indexedCount += 1;
+  const reportProgress = (relativePath: string): void => {
     processedCount += 1;
-    if (progressBar) {
-      progressBar.update(processedCount, {
-        filename: relativePath.length > 40 ? '...' + relativePath.slice(-37) : relativePath,
-        indexed: indexedCount,
-        skipped: unchangedSkipped,
-        binary: binarySkipped
-      });
-    }
-  }
-
-  if (progressBar) {
-    progressBar.stop();
-    progressBar = null;
-  }
-
-  for (const record of existingRecords) {
-    if (!seenPaths.has(record.path)) {
-      removedRecords.push({ id: record.id, path: record.path });
-      if (shouldCopyFiles) {
-        const targetFilePath = path.join(targetRepoDir, record.path);
-        if (await fileExists(targetFilePath)) {
-          await fs.unlink(targetFilePath);
-        }
-      }
-    }
-  }
+    progressBar?.update(processedCount, {
+      filename: relativePath.length > 40 ? '...' + relativePath.slice(-37) : relativePath,
+      indexed: indexedCount,
+      skipped: unchangedSkipped,
+      binary: binarySkipped
+    });
+  };
 
   const upsertMeta = db.prepare(`
     INSERT INTO file_meta (repo, path, filename, mtime_ms, size_bytes, hash)
@@ -249,86 +363,569 @@ export async function indexRepository(repoPath: string, options: IndexOptions =
       hash = excluded.hash
     RETURNING id
   `);
+  const deleteSegments = db.prepare('DELETE FROM file_segments WHERE file_id = ? RETURNING id');
+  const insertSegment = db.prepare('INSERT INTO file_segments (file_id, start_line) VALUES (?, ?)');
   const deleteFtsByRowId = db.prepare('DELETE FROM file_fts WHERE rowid = ?');
   const insertFts = db.prepare(`
     INSERT INTO file_fts(rowid, repo, path, filename, contents)
     VALUES (@id, @repo, @path, @filename, @contents)
   `);
+  const deleteFileText = (fileId: number): void => {
+    for (const segment of deleteSegments.all(fileId) as Array<{ id: number }>) {
+      deleteFtsByRowId.run(segment.id);
+    }
+  };
   const deleteMetaById = db.prepare('DELETE FROM file_meta WHERE id = ?');
+  const deleteSymbolsByFileId = db.prepare('DELETE FROM symbols WHERE file_id = ?');
+  const insertSymbol = db.prepare(`
+    INSERT INTO symbols (file_id, repo, path, name, kind, container, start_line, end_line, exported)
+    VALUES (@fileId, @repo, @path, @name, @kind, @container, @startLine, @endLine, @exported)
+  `);
 
-  const transaction = db.transaction((updates: typeof pendingUpdates, deletions: typeof removedRecords) => {
+  const writeUpdates = db.transaction((updates: PendingUpdate[]) => {
     for (const record of updates) {
       const { meta, contents } = record;
       const inserted = upsertMeta.get(meta) as { id: number };
-      deleteFtsByRowId.run(inserted.id);
-      insertFts.run({
-        id: inserted.id,
-        repo: meta.repo,
-        path: meta.path,
-        filename: meta.filename,
-        contents
-      });
+      // Large files are stored as several full-text rows, each linked to the file and its first line
+      deleteFileText(inserted.id);
+      for (const segment of segmentText(contents)) {
+        const segmentId = insertSegment.run(inserted.id, segment.startLine).lastInsertRowid;
+        insertFts.run({
+          id: segmentId,
+          repo: meta.repo,
+          path: meta.path,
+          filename: meta.filename,
+          contents: segment.text
+        });
+      }
       record.meta.id = inserted.id;
+
+      deleteSymbolsByFileId.run(inserted.id);
+      for (const symbol of record.symbols) {
+        insertSymbol.run({
+          ...symbol,
+          fileId: inserted.id,
+          repo: meta.repo,
+          path: meta.path,
+          exported: symbol.exported ? 1 : 0
+        });
+      }
     }
+  });
 
+  const writeDeletions = db.transaction((deletions: typeof removedRecords) => {
     for (const removal of deletions) {
-      deleteFtsByRowId.run(removal.id);
+      deleteSymbolsByFileId.run(removal.id);
+      deleteFileText(removal.id);
       deleteMetaById.run(removal.id);
     }
   });
 
-  transaction(pendingUpdates, removedRecords);
-
-  // Delete removed records from LanceDB
-  for (const removal of removedRecords) {
-    const filter = `id = '${escapeFilterValue(toVectorId(repoName, removal.path))}'`;
-    await deleteFromLanceTable(filter);
-  }
+  const pool = createEmbeddingPool();
+  // Identical content elsewhere (another version of this repository, a fork, a
+  // vendored copy) was embedded before, so take its vectors from the embedding
+  // cache, or from the vector table for files indexed before the cache existed.
+  // Copies met while the first one is still on its way to the index share its promise.
+  const pendingChunks = new Map<string, Promise<EmbeddedChunk[]>>();
+  // With --force, stored vectors are only trusted once this run has rewritten them
+  const rewrittenHashes = new Set<string>();
+
+  const embedChunks = async (hash: string, contents: string): Promise<EmbeddedChunk[]> => {
+    if (!force || rewrittenHashes.has(hash)) {
+      const cached = await readEmbeddingCache(cacheKey, hash);
+      if (cached) {
+        cacheHits += 1;
+        chunksReused += cached.length;
+        return cached;
+      }
+      cacheMisses += 1;
 
-  // Delete and re-add updated records
-  if (pendingUpdates.length > 0) {
-    const filters = new Set<string>();
-    for (const record of pendingUpdates) {
-      filters.add(`id = '${escapeFilterValue(toVectorId(repoName, record.meta.path))}'`);
+      const stored = await storedChunks(hash);
+      if (stored) {
+        chunksReused += stored.length;
+        return stored;
+      }
     }
-    for (const filter of filters) {
-      await deleteFromLanceTable(filter);
+    const chunks = chunkText(contents);
+    const embeddings = await pool.embed(chunks.map((chunk) => chunk.text));
+    chunksEmbedded += chunks.length;
+    return chunks.map((chunk, index) => ({ chunk, embedding: embeddings[index] }));
+  };
+
+  const chunksFor = async (hash: string, contents: string): Promise<EmbeddedChunk[]> => {
+    const pending = pendingChunks.get(hash);
+    if (pending) {
+      const chunks = await pending;
+      chunksReused += chunks.length;
+      return chunks;
     }
+    const chunks = embedChunks(hash, contents);
+    pendingChunks.set(hash, chunks);
+    return chunks;
+  };
 
-    await addToLanceTable(
-      pendingUpdates.map((record) => ({
-        id: toVectorId(repoName, record.meta.path),
-        repo: repoName,
-        path: record.meta.path,
-        filename: record.meta.filename,
-        mtime_ms: record.meta.mtime_ms,
-        size_bytes: record.meta.size_bytes,
-        hash: record.meta.hash,
-        vector: Array.from(record.embedding)
-      }))
+  // Three stages joined by bounded queues, so memory stays flat however large
+  // the repository is: files are read and hashed concurrently, embedded as
+  // pooled batches, and written in transactions of INDEX_WRITE_BATCH files.
+  const toEmbed = new BoundedQueue<ReadFile>(READ_AHEAD_FILES);
+  const toWrite = new BoundedQueue<PendingUpdate>(INDEX_WRITE_BATCH);
+
+  const readFiles = async (): Promise<void> => {
+    await mapWithConcurrency(entries, READ_CONCURRENCY, async (relativePath) => {
+      const absolutePath = path.join(repoPath, relativePath);
+      const targetFilePath = path.join(targetRepoDir, relativePath);
+
+      // Files over the cap are neither indexed nor mirrored into the cache
+      const stats = await fs.stat(absolutePath);
+      if (stats.size > filters.maxFileBytes) {
+        if (shouldCopyFiles) {
+          await fs.rm(targetFilePath, { force: true });
+        }
+        largeSkipped += 1;
+        reportProgress(relativePath);
+        return;
+      }
+
+      if (shouldCopyFiles) {
+        await fs.mkdir(path.dirname(targetFilePath), { recursive: true });
+        await fs.copyFile(absolutePath, targetFilePath);
+      }
+
+      const buffer = await fs.readFile(absolutePath);
+      if (isBinaryBuffer(buffer)) {
+        binarySkipped += 1;
+        reportProgress(relativePath);
+        return;
+      }
+
+      const hash = hashBuffer(buffer);
+      seenPaths.add(relativePath);
+
+      const existing = existingByPath.get(relativePath);
+      if (existing && existing.hash === hash && !force) {
+        unchangedSkipped += 1;
+        reportProgress(relativePath);
+        return;
+      }
+
+      await toEmbed.push({
+        meta: {
+          repo: repoName,
+          path: relativePath,
+          filename: getFilename(relativePath),
+          mtime_ms: Math.trunc(stats.mtimeMs ?? stats.mtime.getTime()),
+          size_bytes: stats.size,
+          hash
+        },
+        contents: buffer.toString('utf8')
+      });
+    });
+  };
+
+  // Enough files in flight to keep every pool slot supplied with full batches
+  const embedFiles = async (): Promise<void> => {
+    const consumers = Array.from({ length: pool.size * pool.batchSize * 2 }, async () => {
+      for (let file = await toEmbed.shift(); file; file = await toEmbed.shift()) {
+        const chunks = await chunksFor(file.meta.hash, file.contents);
+        await toWrite.push({ ...file, chunks, symbols: extractSymbols(file.meta.path, file.contents) });
+        indexedCount += 1;
+        reportProgress(file.meta.path);
+      }
+    });
+    await Promise.all(consumers);
+  };
+
+  // Vectors go first: if the run stops in between, SQLite still has the old
+  // hash and the next run redoes the file
+  const writeBatch = async (batch: PendingUpdate[]): Promise<void> => {
+    await deleteFromLanceTable(fileVectorFilter(repoName, batch.map((record) => record.meta.path)));
+    await addToLanceTable(batch.flatMap((record) => vectorRows(record.meta, record.chunks)));
+    await writeEmbeddingCache(
+      cacheKey,
+      batch.map((record) => ({ hash: record.meta.hash, chunks: record.chunks })),
+      { replace: force }
     );
+    writeUpdates(batch);
+    for (const record of batch) {
+      rewrittenHashes.add(record.meta.hash);
+      pendingChunks.delete(record.meta.hash);
+    }
+  };
+
+  const writeFiles = async (): Promise<void> => {
+    let batch: PendingUpdate[] = [];
+    for (let record = await toWrite.shift(); record; record = await toWrite.shift()) {
+      batch.push(record);
+      if (batch.length >= INDEX_WRITE_BATCH) {
+        await writeBatch(batch);
+        batch = [];
+      }
+    }
+    if (batch.length) {
+      await writeBatch(batch);
+    }
+  };
+
+  const runStage = async (stage: () => Promise<void>, output: BoundedQueue<unknown> | null): Promise<void> => {
+    try {
+      await stage();
+      output?.close();
+    } catch (error) {
+      toEmbed.fail(error);
+      toWrite.fail(error);
+      throw error;
+    }
+  };
+
+  try {
+    const stages = await Promise.allSettled([
+      runStage(readFiles, toEmbed),
+      runStage(embedFiles, toWrite),
+      runStage(writeFiles, null)
+    ]);
+    const failed = stages.find((stage): stage is PromiseRejectedResult => stage.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
+  } finally {
+    progressBar?.stop();
+    await pool.close();
+  }
+  await recordEmbeddingCacheLookups(cacheHits, cacheMisses);
+
+  for (const record of existingRecords) {
+    if (!seenPaths.has(record.path)) {
+      removedRecords.push({ id: record.id, path: record.path });
+      if (shouldCopyFiles) {
+        const targetFilePath = path.join(targetRepoDir, record.path);
+        if (await fileExists(targetFilePath)) {
+          await fs.unlink(targetFilePath);
+        }
+      }
+    }
+  }
+
+  if (removedRecords.length > 0) {
+    await deleteFromLanceTable(fileVectorFilter(repoName, removedRecords.map((record) => record.path)));
+    writeDeletions(removedRecords);
   }
 
   await upsertRepoIndex(repoName, options.source ?? null, Date.now(), null);
 
+  // Scoped reindexes only touch files; history is picked up on full runs
+  const history = scopedPaths ? null : await indexHistory(repoName, repoPath);
+
   const durationMs = Date.now() - startTime;
+  const seconds = Math.max(durationMs, 1) / 1000;
 
   return {
     repo: repoName,
     repoPath,
     filesScanned: entries.length,
-    filesIndexed: pendingUpdates.length,
+    filesIndexed: indexedCount,
     filesDeleted: removedRecords.length,
     filesSkippedBinary: binarySkipped,
+    filesSkippedLarge: largeSkipped,
     filesSkippedUnchanged: unchangedSkipped,
+    chunksEmbedded,
+    chunksReused,
+    commitsIndexed: history?.commitsIndexed ?? 0,
+    filesPerSecond: Math.round((entries.length / seconds) * 10) / 10,
+    embeddingsPerSecond: Math.round((chunksEmbedded / seconds) * 10) / 10,
     durationMs
   };
 }
 
-export async function addRepository(repoUrl: string, options: { repoName?: string } = {}): Promise<IndexSummary> {
-  const cloneResult = await cloneOrUpdateRepo(repoUrl, options.repoName);
-  return indexRepository(cloneResult.repoPath, {
+export interface AddOptions {
+  repoName?: string;
+  /** Branch, tag or commit to pin the checkout to. */
+  ref?: string;
+  /**
+   * Index `ref` side by side with other versions as `<name>@<ref>`, with its
+   * own checkout, instead of replacing the repository's current checkout.
+   */
+  versioned?: boolean;
+  progress?: boolean;
+}
+
+export async function addRepository(repoUrl: string, options: AddOptions = {}): Promise<IndexSummary> {
+  let repoName = options.repoName;
+  if (options.versioned) {
+    if (!options.ref) {
+      throw new Error('A versioned repository needs a ref to check out');
+    }
+    repoName = versionedRepoName(repoName ?? normalizeRepoName(repoUrl), options.ref);
+  }
+
+  const cloneResult = await cloneOrUpdateRepo(repoUrl, repoName, options.ref);
+  const summary = await indexRepository(cloneResult.repoPath, {
+    repo: cloneResult.repo,
+    source: repoUrl,
+    progress: options.progress
+  });
+  await setRepoPin(cloneResult.repo, cloneResult.ref, cloneResult.commitSha);
+  return summary;
+}
+
+function isLocalSource(source: string): boolean {
+  return path.isAbsolute(source);
+}
+
+/**
+ * Pin a tracked git repository to a branch, tag or commit (or unpin it with
+ * null) and re-index the files that differ from the previous checkout.
+ */
+export async function pinRepository(repo: string, ref: string | null, options: { progress?: boolean } = {}): Promise<IndexSummary> {
+  await ensureDataLayout();
+  const row = (await listRepoIndex()).find((entry) => entry.repo === repo);
+  if (!row) {
+    throw new Error(`Unknown repository: ${repo}`);
+  }
+  if (!row.source || isLocalSource(row.source)) {
+    throw new Error(`${repo} is indexed from a local directory; only repositories added from a git URL can be pinned`);
+  }
+  if (parseRepoVersion(repo).version !== null) {
+    throw new Error(`${repo} is a versioned repository; add another version with \`add --ref <ref> --versioned\` instead`);
+  }
+  return addRepository(row.source, { repoName: repo, ref: ref ?? undefined, progress: options.progress });
+}
+
+export async function removeRepository(repo: string): Promise<RemoveSummary> {
+  await ensureDataLayout();
+  const repoPath = resolveRepoPath(repo);
+  const bytesFreed = await directorySize(repoPath);
+
+  await resetRepoData(repo);
+  await fs.rm(repoPath, { recursive: true, force: true });
+
+  return { repo, repoPath, bytesFreed };
+}
+
+async function syncRepository(row: RepoIndexRow, force: boolean, progress: boolean): Promise<IndexSummary> {
+  if (!row.source) {
+    throw new Error('No source recorded; re-add or re-index the repository first');
+  }
+
+  // Local directories are re-indexed in place, anything else is treated as a git remote
+  if (isLocalSource(row.source) && (await fileExists(row.source))) {
+    return indexRepository(row.source, { repo: row.repo, source: row.source, force, progress });
+  }
+
+  const cloneResult = await cloneOrUpdateRepo(row.source, row.repo, row.ref);
+  const summary = await indexRepository(cloneResult.repoPath, {
     repo: cloneResult.repo,
-    source: repoUrl
+    source: row.source,
+    force,
+    progress
   });
+  await setRepoPin(cloneResult.repo, cloneResult.ref, cloneResult.commitSha);
+  return summary;
+}
+
+/**
+ * Refresh every tracked repository from its recorded source. A failing repository
+ * records its error in `repo_index.last_error` and does not stop the others.
+ */
+export async function syncRepositories(options: SyncOptions = {}): Promise<SyncResult[]> {
+  await ensureDataLayout();
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const force = options.force ?? false;
+
+  let rows = await listRepoIndex();
+  if (options.repos?.length) {
+    const wanted = new Set(options.repos);
+    const missing = options.repos.filter((repo) => !rows.some((row) => row.repo === repo));
+    if (missing.length) {
+      throw new Error(`Unknown repository: ${missing.join(', ')}`);
+    }
+    rows = rows.filter((row) => wanted.has(row.repo));
+  }
+
+  return mapWithConcurrency(rows, concurrency, async (row) => {
+    const startTime = Date.now();
+    let result: SyncResult;
+    try {
+      // Parallel progress bars would overwrite each other
+      const summary = await syncRepository(row, force, concurrency === 1 && (options.progress ?? true));
+      result = {
+        repo: row.repo,
+        source: row.source,
+        status: 'ok',
+        summary,
+        error: null,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await upsertRepoIndex(row.repo, row.source, row.last_indexed_ms, message);
+      result = {
+        repo: row.repo,
+        source: row.source,
+        status: 'failed',
+        summary: null,
+        error: message,
+        durationMs: Date.now() - startTime
+      };
+    }
+    options.onResult?.(result);
+    return result;
+  });
+}
+
+export interface ReembedSummary {
+  /** Embedding setup the vectors were built with before, or null for an empty index. */
+  previous: EmbeddingMetadata | null;
+  current: EmbeddingMetadata;
+  filesEmbedded: number;
+  chunksEmbedded: number;
+  /** Chunk vectors copied from files with identical content or taken from the embedding cache. */
+  chunksReused: number;
+  commitsEmbedded: number;
+  durationMs: number;
+}
+
+/** Vector rows buffered before each write to LanceDB. */
+const REEMBED_WRITE_BATCH = 500;
+
+/**
+ * Regenerate every chunk and commit vector with the configured embedding
+ * model, from the contents and messages already stored in SQLite. Files are
+ * not rescanned or rehashed, and the keyword and symbol indexes are untouched.
+ */
+export async function reembedIndex(options: { progress?: boolean } = {}): Promise<ReembedSummary> {
+  const startTime = Date.now();
+  await ensureDataLayout();
+
+  const previous = await getEmbeddingMetadata();
+  const current = await currentEmbeddingMetadata();
+  const cacheKey = embeddingCacheKey(current);
+  // Built next to the live tables and swapped in at the end, so a failed run leaves the index searchable
+  const staged = await createStagedVectorTables();
+  try {
+    const summary = await fillStagedVectorTables(staged, cacheKey, options);
+    await activateStagedVectorTables(staged, current);
+    return { previous, current, ...summary, durationMs: Date.now() - startTime };
+  } catch (error) {
+    await discardStagedVectorTables(staged).catch(() => {});
+    throw error;
+  }
+}
+
+/** Embed every stored file and commit into the staged tables. */
+async function fillStagedVectorTables(
+  staged: StagedVectorTables,
+  cacheKey: string,
+  options: { progress?: boolean }
+): Promise<Pick<ReembedSummary, 'filesEmbedded' | 'chunksEmbedded' | 'chunksReused' | 'commitsEmbedded'>> {
+  const db = await getSqliteDb();
+
+  // Sorted by hash so identical files are adjacent and embedded once
+  const files = db
+    .prepare('SELECT id, repo, path, filename, mtime_ms, size_bytes, hash FROM file_meta ORDER BY hash, repo, path')
+    .all() as Array<FileMetaRow & { id: number }>;
+  const selectSegments = db.prepare(`
+    SELECT f.contents AS contents
+    FROM file_segments s
+    JOIN file_fts f ON f.rowid = s.id
+    WHERE s.file_id = ?
+    ORDER BY s.start_line
+  `);
+
+  let progressBar: cliProgress.SingleBar | null = null;
+  if (files.length > 0 && (options.progress ?? true)) {
+    progressBar = new cliProgress.SingleBar({
+      format: '[{bar}] {percentage}% | {value}/{total} files | Current: {filename}',
+      barCompleteChar: '\u2588',
+      barIncompleteChar: '\u2591',
+      hideCursor: true,
+      clearOnComplete: false
+    }, cliProgress.Presets.shades_classic);
+    progressBar.start(files.length, 0, { filename: '' });
+  }
+
+  let pending: Record<string, unknown>[] = [];
+  let newCacheEntries: Array<{ hash: string; chunks: EmbeddedChunk[] }> = [];
+  let previousHash: string | null = null;
+  let previousChunks: EmbeddedChunk[] = [];
+  let chunksEmbedded = 0;
+  let chunksReused = 0;
+  let cacheHits = 0;
+  let cacheMisses = 0;
+
+  const flush = async (): Promise<void> => {
+    await staged.files.add(pending);
+    await writeEmbeddingCache(cacheKey, newCacheEntries);
+    pending = [];
+    newCacheEntries = [];
+  };
+
+  try {
+    for (const [index, file] of files.entries()) {
+      let chunks: EmbeddedChunk[];
+      if (previousHash === file.hash) {
+        chunks = previousChunks;
+        chunksReused += chunks.length;
+      } else {
+        const cached = await readEmbeddingCache(cacheKey, file.hash);
+        if (cached) {
+          chunks = cached;
+          chunksReused += chunks.length;
+          cacheHits += 1;
+        } else {
+          const segments = selectSegments.all(file.id) as Array<{ contents: string }>;
+          const textChunks = chunkText(segments.map((segment) => segment.contents).join(''));
+          const embeddings = await embedBatch(textChunks.map((chunk) => chunk.text));
+          chunks = textChunks.map((chunk, chunkIndex) => ({ chunk, embedding: embeddings[chunkIndex] }));
+          chunksEmbedded += chunks.length;
+          cacheMisses += 1;
+          newCacheEntries.push({ hash: file.hash, chunks });
+        }
+        previousHash = file.hash;
+        previousChunks = chunks;
+      }
+
+      pending.push(...vectorRows(file, chunks));
+      if (pending.length >= REEMBED_WRITE_BATCH) {
+        await flush();
+      }
+      progressBar?.update(index + 1, { filename: file.path.length > 40 ? '...' + file.path.slice(-37) : file.path });
+    }
+    if (pending.length) {
+      await flush();
+    }
+  } finally {
+    progressBar?.stop();
+  }
+  await recordEmbeddingCacheLookups(cacheHits, cacheMisses);
+
+  const commits = db.prepare('SELECT repo, sha, committed_ms, message FROM commit_meta ORDER BY sha, repo').all() as Array<{
+    repo: string;
+    sha: string;
+    committed_ms: number;
+    message: string;
+  }>;
+  for (let i = 0; i < commits.length; i += REEMBED_WRITE_BATCH) {
+    const batch = commits.slice(i, i + REEMBED_WRITE_BATCH);
+    // The same commit indexed under several versions of a repository is embedded once
+    const messages = new Map(batch.map((commit) => [commit.sha, commit.message]));
+    const shas = Array.from(messages.keys());
+    const embeddings = await embedBatch(shas.map((sha) => messages.get(sha) ?? ''));
+    const vectors = new Map(shas.map((sha, shaIndex) => [sha, Array.from(embeddings[shaIndex])]));
+    await staged.commits.add(
+      batch.map((commit) => ({
+        id: `${commit.repo}:${commit.sha}`,
+        repo: commit.repo,
+        sha: commit.sha,
+        committed_ms: commit.committed_ms,
+        vector: vectors.get(commit.sha)
+      }))
+    );
+  }
+
+  return {
+    filesEmbedded: files.length,
+    chunksEmbedded,
+    chunksReused,
+    commitsEmbedded: commits.length
+  };
 }
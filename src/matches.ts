@@ -0,0 +1,127 @@
+import type { BlameInfo } from './blame.js';
+
+export interface MatchLocation {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface SearchMatch extends MatchLocation {
+  text: string;
+  before: string[];
+  after: string[];
+  /** Last-change commit of the first matched line, when requested. */
+  blame?: BlameInfo | null;
+}
+
+export interface MatchOptions {
+  contextLines?: number;
+  maxMatches?: number;
+  startLine?: number;
+  endLine?: number;
+}
+
+export const DEFAULT_MATCH_CONTEXT_LINES = 2;
+export const DEFAULT_MAX_MATCHES_PER_FILE = 5;
+
+const FTS_OPERATORS = new Set(['and', 'or', 'not', 'near']);
+const STEM_SUFFIXES = ['ions', 'ion', 'ing', 'ies', 'ed', 'es', 's', 'e'];
+const MIN_STEM_LENGTH = 4;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Reduce a term to a prefix that also matches its common inflections,
+ * approximating the porter stemming the FTS index applies.
+ */
+function stemPrefix(term: string): string {
+  for (const suffix of STEM_SUFFIXES) {
+    if (term.endsWith(suffix) && term.length - suffix.length >= MIN_STEM_LENGTH) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+}
+
+/**
+ * Extract the plain terms of a query, dropping FTS5 operators and syntax.
+ */
+export function extractQueryTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const token of query.toLowerCase().split(/[^\p{L}\p{N}_]+/u)) {
+    if (token && !FTS_OPERATORS.has(token)) {
+      terms.add(stemPrefix(token));
+    }
+  }
+  return Array.from(terms);
+}
+
+/**
+ * Locate query terms in file contents. Locations are 1-based; `endColumn` is exclusive.
+ * Each matching line yields one match spanning its first to last term occurrence.
+ */
+export function findQueryMatches(content: string, query: string, options: MatchOptions = {}): SearchMatch[] {
+  const terms = extractQueryTerms(query);
+  if (!terms.length) {
+    return [];
+  }
+
+  const contextLines = options.contextLines ?? DEFAULT_MATCH_CONTEXT_LINES;
+  const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES_PER_FILE;
+  const lines = content.split('\n');
+  const firstLine = Math.max(1, options.startLine ?? 1);
+  const lastLine = Math.min(lines.length, options.endLine ?? lines.length);
+  const regex = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}_]*`, 'giu');
+
+  const matches: SearchMatch[] = [];
+  for (let lineNum = firstLine; lineNum <= lastLine && matches.length < maxMatches; lineNum += 1) {
+    const text = lines[lineNum - 1];
+    let start = -1;
+    let end = -1;
+    for (const match of text.matchAll(regex)) {
+      const index = match.index ?? 0;
+      if (start === -1) {
+        start = index;
+      }
+      end = index + match[0].length;
+    }
+
+    if (start === -1) {
+      continue;
+    }
+
+    matches.push({
+      line: lineNum,
+      column: start + 1,
+      endLine: lineNum,
+      endColumn: end + 1,
+      text,
+      before: lines.slice(Math.max(0, lineNum - 1 - contextLines), lineNum - 1),
+      after: lines.slice(lineNum, Math.min(lines.length, lineNum + contextLines))
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Describe a whole line range as a single match, used when a semantic hit
+ * contains none of the query terms.
+ */
+export function rangeMatch(content: string, startLine: number, endLine: number, contextLines: number = DEFAULT_MATCH_CONTEXT_LINES): SearchMatch {
+  const lines = content.split('\n');
+  const line = Math.min(Math.max(1, startLine), lines.length);
+  const lastLine = Math.min(Math.max(line, endLine), lines.length);
+  return {
+    line,
+    column: 1,
+    endLine: lastLine,
+    endColumn: lines[lastLine - 1].length + 1,
+    text: lines[line - 1],
+    before: lines.slice(Math.max(0, line - 1 - contextLines), line - 1),
+    after: lines.slice(line, Math.min(lines.length, line + contextLines))
+  };
+}
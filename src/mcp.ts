@@ -0,0 +1,275 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { z } from 'zod';
+
+import { globFiles, grepFiles, listDirectory, readIndexedFile } from './browse.js';
+import { listRepoIndex } from './db.js';
+import { FUSION_STRATEGIES, search, type FusionStrategy } from './search.js';
+import { findReferences } from './references.js';
+import { searchHistory } from './history.js';
+import { SYMBOL_KINDS, findDefinitions, findSymbols, type SymbolKind } from './symbols.js';
+import { ensureDataLayout } from './util.js';
+
+export const MCP_MAX_RESULTS = 100;
+export const MCP_MAX_READ_LINES = 2000;
+const MCP_DEFAULT_RESULTS = 20;
+const MCP_DEFAULT_READ_LINES = 200;
+
+export interface McpServerOptions {
+  version: string;
+}
+
+interface Page<T> {
+  items: T[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+};
+
+const pagingShape = {
+  limit: z.number().int().min(1).max(MCP_MAX_RESULTS).optional().describe(`Maximum number of items to return (default ${MCP_DEFAULT_RESULTS}, max ${MCP_MAX_RESULTS})`),
+  offset: z.number().int().min(0).optional().describe('Number of items to skip, for paging (default 0)')
+};
+
+/**
+ * Slice `offset..offset+limit` out of items fetched with one extra row,
+ * so `hasMore` is known without a second query.
+ */
+function toPage<T>(items: T[], offset: number, limit: number): Page<T> {
+  return {
+    items: items.slice(offset, offset + limit),
+    offset,
+    limit,
+    hasMore: items.length > offset + limit
+  };
+}
+
+function jsonResult(payload: unknown): ToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }] };
+}
+
+function errorResult(message: string): ToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+async function runTool(fn: () => Promise<ToolResult>): Promise<ToolResult> {
+  try {
+    return await fn();
+  } catch (error) {
+    return errorResult(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function createMcpServer(options: McpServerOptions): McpServer {
+  const server = new McpServer({ name: 'repogrep', version: options.version });
+
+  server.registerTool(
+    'list_repositories',
+    {
+      title: 'List repositories',
+      description: 'List every indexed repository with its source, file count and last index time.'
+    },
+    async () => runTool(async () => jsonResult(await listRepoIndex()))
+  );
+
+  server.registerTool(
+    'search',
+    {
+      title: 'Search code',
+      description: 'Search indexed repositories by keyword (SQLite FTS5), meaning (vector embeddings) or both. Results include match line and column locations with context lines.',
+      inputSchema: {
+        query: z.string().min(1).describe('Search query. May include filters: repo:name, path:dir-or-glob, ext:ts, lang:python, and -repo:/-path:/-ext:/-lang: to exclude'),
+        mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().describe('Search mode (default keyword)'),
+        repo: z.string().optional().describe('Only search this repository; name@* for every version, name@latest for the newest'),
+        contextLines: z.number().int().min(0).max(20).optional().describe('Context lines around each match (default 2)'),
+        fusion: z.enum(FUSION_STRATEGIES as [string, ...string[]]).optional().describe('How hybrid mode combines keyword and semantic rankings (default weighted)'),
+        withBlame: z.boolean().optional().describe('Attach the commit, author and date that last changed each matched line'),
+        ...pagingShape
+      }
+    },
+    async ({ query, mode, repo, contextLines, fusion, withBlame, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => {
+        const results = await search(query, mode ?? 'keyword', {
+          repo,
+          contextLines,
+          fusion: fusion as FusionStrategy | undefined,
+          withBlame,
+          limit: offset + limit + 1
+        });
+        return jsonResult(toPage(results, offset, limit));
+      })
+  );
+
+  server.registerTool(
+    'grep',
+    {
+      title: 'Grep files',
+      description: 'Search indexed files line by line with a JavaScript regular expression. Returns one item per matching line.',
+      inputSchema: {
+        pattern: z.string().min(1).describe('Regular expression'),
+        repo: z.string().optional().describe('Only search this repository'),
+        ignoreCase: z.boolean().optional().describe('Case insensitive matching'),
+        context: z.number().int().min(0).max(20).optional().describe('Context lines before and after each match'),
+        type: z.string().optional().describe('Only search files with this extension, e.g. "ts"'),
+        withBlame: z.boolean().optional().describe('Attach the commit, author and date that last changed each matching line'),
+        ...pagingShape
+      }
+    },
+    async ({ pattern, repo, ignoreCase, context, type, withBlame, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => {
+        const files = await grepFiles(pattern, {
+          repo,
+          ignoreCase,
+          contextBefore: context,
+          contextAfter: context,
+          type,
+          withBlame,
+          limit: offset + limit + 1
+        });
+        return jsonResult(toPage(files.flatMap((file) => file.matches), offset, limit));
+      })
+  );
+
+  server.registerTool(
+    'find_symbols',
+    {
+      title: 'Find symbols',
+      description: 'Fuzzy-search functions, classes, interfaces, methods and constants by name. Returns kind, container and line range.',
+      inputSchema: {
+        query: z.string().optional().describe('Symbol name; omit to list symbols'),
+        repo: z.string().optional().describe('Only search this repository'),
+        kinds: z.array(z.enum(SYMBOL_KINDS as [string, ...string[]])).optional().describe('Only return these symbol kinds'),
+        exact: z.boolean().optional().describe('Only match the exact name'),
+        ...pagingShape
+      }
+    },
+    async ({ query, repo, kinds, exact, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => {
+        const symbols = await findSymbols(query, { repo, kinds: kinds as SymbolKind[] | undefined, exact, limit: offset + limit + 1 });
+        return jsonResult(toPage(symbols, offset, limit));
+      })
+  );
+
+  server.registerTool(
+    'find_definition',
+    {
+      title: 'Go to definition',
+      description: 'Find where a symbol is defined across indexed repositories. Accepts Container.name to pick a member.',
+      inputSchema: {
+        name: z.string().min(1).describe('Symbol name, optionally qualified as Container.name'),
+        repo: z.string().optional().describe('Only search this repository'),
+        ...pagingShape
+      }
+    },
+    async ({ name, repo, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => jsonResult(toPage(await findDefinitions(name, { repo, limit: offset + limit + 1 }), offset, limit)))
+  );
+
+  server.registerTool(
+    'find_references',
+    {
+      title: 'Find references',
+      description: 'Find usages of an identifier, skipping comments and strings where possible. Results in the same repository and nearby paths come first.',
+      inputSchema: {
+        name: z.string().min(1).describe('Identifier to find usages of'),
+        repo: z.string().optional().describe('Only search this repository'),
+        from: z.string().optional().describe('repo/path to rank results against (default: the definition sites)'),
+        ...pagingShape
+      }
+    },
+    async ({ name, repo, from, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => jsonResult(toPage(await findReferences(name, { repo, from, limit: offset + limit + 1 }), offset, limit)))
+  );
+
+  server.registerTool(
+    'search_commits',
+    {
+      title: 'Search commits',
+      description: 'Search the commit history of indexed git repositories by message, author and touched paths, or by meaning with semantic mode.',
+      inputSchema: {
+        query: z.string().min(1).describe('Words to look for in commit messages'),
+        mode: z.enum(['keyword', 'semantic']).optional().describe('keyword (default) or semantic'),
+        repo: z.string().optional().describe('Only search this repository'),
+        path: z.string().optional().describe('Only commits touching this file, directory or glob'),
+        since: z.string().optional().describe('Only commits since a date (2024-01-31) or span ("2 weeks", "30d")'),
+        author: z.string().optional().describe('Only commits whose author name or email contains this text'),
+        ...pagingShape
+      }
+    },
+    async ({ query, mode, repo, path: commitPath, since, author, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () =>
+        jsonResult(
+          toPage(await searchHistory(query, { mode, repo, path: commitPath, since, author, limit: offset + limit + 1 }), offset, limit)
+        )
+      )
+  );
+
+  server.registerTool(
+    'read_file',
+    {
+      title: 'Read file',
+      description: 'Read lines of an indexed file. Page through long files with offset and limit.',
+      inputSchema: {
+        repo: z.string().min(1).describe('Repository name'),
+        path: z.string().min(1).describe('File path inside the repository'),
+        offset: z.number().int().min(1).optional().describe('First line to return, 1-based (default 1)'),
+        limit: z.number().int().min(1).max(MCP_MAX_READ_LINES).optional().describe(`Number of lines (default ${MCP_DEFAULT_READ_LINES}, max ${MCP_MAX_READ_LINES})`),
+        blame: z.boolean().optional().describe('Annotate each line with the commit, author and date that last changed it (repositories cloned with add only)')
+      }
+    },
+    async ({ repo, path: filePath, offset = 1, limit = MCP_DEFAULT_READ_LINES, blame }) =>
+      runTool(async () => {
+        const result = await readIndexedFile(repo, filePath, { offset, limit, blame });
+        if (!result) {
+          return errorResult(`File not found in index: ${repo}/${filePath}`);
+        }
+        return jsonResult({ ...result, hasMore: result.endLine < result.totalLines });
+      })
+  );
+
+  server.registerTool(
+    'list_directory',
+    {
+      title: 'List directory',
+      description: 'List the files and subdirectories of "repo" or "repo/path". Without a path, lists the repositories.',
+      inputSchema: {
+        path: z.string().optional().describe('Directory in the form repo or repo/path'),
+        ignore: z.array(z.string()).optional().describe('Patterns of entries to leave out'),
+        ...pagingShape
+      }
+    },
+    async ({ path: dirPath, ignore, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => jsonResult(toPage(await listDirectory(dirPath, { ignore }), offset, limit)))
+  );
+
+  server.registerTool(
+    'glob',
+    {
+      title: 'Find files',
+      description: 'Find indexed files whose path or filename matches a glob pattern, most recently modified first.',
+      inputSchema: {
+        pattern: z.string().min(1).describe('Glob pattern, e.g. "**/*.test.ts"'),
+        repo: z.string().optional().describe('Only search this repository'),
+        ...pagingShape
+      }
+    },
+    async ({ pattern, repo, limit = MCP_DEFAULT_RESULTS, offset = 0 }) =>
+      runTool(async () => jsonResult(toPage(await globFiles(pattern, { repo, limit: offset + limit + 1 }), offset, limit)))
+  );
+
+  return server;
+}
+
+/**
+ * Serve the repogrep tools over stdio until the client disconnects.
+ */
+export async function startMcpServer(options: McpServerOptions): Promise<void> {
+  await ensureDataLayout();
+  const server = createMcpServer(options);
+  await server.connect(new StdioServerTransport());
+}
@@ -0,0 +1,309 @@
+import type BetterSqlite3 from 'better-sqlite3';
+
+type SqliteDatabase = InstanceType<typeof BetterSqlite3>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Drops or rewrites stored data; the database is backed up before it runs. */
+  destructive?: boolean;
+  up(db: SqliteDatabase): void;
+}
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  destructive: boolean;
+}
+
+export interface MigrationSummary {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+  /** Copy of the database taken before the first destructive step, if any ran. */
+  backupPath: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Add columns introduced after a table was first created.
+ */
+function addMissingColumns(db: SqliteDatabase, table: string, columns: Record<string, string>): void {
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((column) => column.name));
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
+}
+
+/**
+ * Schema changes in the order they were introduced. Append new steps; never
+ * edit one that has shipped. Databases created before versioning have no
+ * recorded version, so every step must also succeed against tables that
+ * already exist.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create file, full-text and repository tables',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS file_meta (
+          id INTEGER PRIMARY KEY,
+          repo TEXT NOT NULL,
+          path TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          mtime_ms INTEGER NOT NULL,
+          size_bytes INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          UNIQUE(repo, path)
+        )
+      `);
+
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS file_fts USING fts5(
+          repo, path, filename, contents, tokenize = 'porter'
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS repo_index (
+          repo TEXT PRIMARY KEY,
+          source TEXT,
+          last_indexed_ms INTEGER,
+          last_error TEXT
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_file_meta_repo ON file_meta(repo)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_file_meta_repo_path ON file_meta(repo, path)');
+    }
+  },
+  {
+    version: 2,
+    description: 'Add the symbol index',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS symbols (
+          id INTEGER PRIMARY KEY,
+          file_id INTEGER NOT NULL REFERENCES file_meta(id) ON DELETE CASCADE,
+          repo TEXT NOT NULL,
+          path TEXT NOT NULL,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          container TEXT,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          exported INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_symbols_repo ON symbols(repo)');
+    }
+  },
+  {
+    version: 3,
+    description: 'Record pinned refs and indexed commits for repositories',
+    up(db) {
+      addMissingColumns(db, 'repo_index', { ref: 'TEXT', commit_sha: 'TEXT' });
+    }
+  },
+  {
+    version: 4,
+    description: 'Add the commit history index',
+    up(db) {
+      addMissingColumns(db, 'repo_index', { history_sha: 'TEXT' });
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS commit_meta (
+          id INTEGER PRIMARY KEY,
+          repo TEXT NOT NULL,
+          sha TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          author_email TEXT NOT NULL,
+          committed_ms INTEGER NOT NULL,
+          subject TEXT NOT NULL,
+          message TEXT NOT NULL,
+          UNIQUE(repo, sha)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS commit_paths (
+          commit_id INTEGER NOT NULL REFERENCES commit_meta(id) ON DELETE CASCADE,
+          path TEXT NOT NULL
+        )
+      `);
+
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS commit_fts USING fts5(
+          repo, message, author, paths, tokenize = 'porter'
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commit_meta_repo_time ON commit_meta(repo, committed_ms)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commit_paths_commit ON commit_paths(commit_id)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commit_paths_path ON commit_paths(path)');
+    }
+  },
+  {
+    version: 5,
+    description: 'Add the blame cache',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS blame_cache (
+          repo TEXT NOT NULL,
+          path TEXT NOT NULL,
+          commit_sha TEXT NOT NULL,
+          blame TEXT NOT NULL,
+          PRIMARY KEY(repo, path)
+        )
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Add index-wide metadata',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS index_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Add the embedding cache',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+          model TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          chunks TEXT NOT NULL,
+          vectors BLOB NOT NULL,
+          created_ms INTEGER NOT NULL,
+          PRIMARY KEY(model, hash)
+        )
+      `);
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_embedding_cache_hash ON embedding_cache(hash)');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_file_meta_hash ON file_meta(hash)');
+    }
+  },
+  {
+    version: 8,
+    description: 'Split full-text rows into segments so large files are searchable in full',
+    destructive: true,
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS file_segments (
+          id INTEGER PRIMARY KEY,
+          file_id INTEGER NOT NULL REFERENCES file_meta(id) ON DELETE CASCADE,
+          start_line INTEGER NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_file_segments_file ON file_segments(file_id)');
+
+      // Until now each file had one full-text row, keyed by its id
+      db.exec(`
+        INSERT OR IGNORE INTO file_segments (id, file_id, start_line)
+        SELECT f.rowid, f.rowid, 1 FROM file_fts f JOIN file_meta m ON m.id = f.rowid
+      `);
+      // Those rows stopped at 64KB; clearing the hash makes the next run re-index such files
+      db.exec("UPDATE file_meta SET hash = '' WHERE size_bytes > 65536");
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Version recorded in `schema_version`, or 0 for a new database or one
+ * created before versioning.
+ */
+export function getSchemaVersion(db: SqliteDatabase): number {
+  const table = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'").get();
+  if (!table) {
+    return 0;
+  }
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Steps needed to bring a database at `version` up to date. Throws when the
+ * database was written by a newer repogrep.
+ */
+export function pendingMigrations(version: number): Migration[] {
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `The index uses schema version ${version}, but this version of repogrep only supports up to ${SCHEMA_VERSION}. Upgrade repogrep to use it.`
+    );
+  }
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+function toStep(migration: Migration): MigrationStep {
+  return { version: migration.version, description: migration.description, destructive: migration.destructive === true };
+}
+
+/**
+ * Apply pending migrations, each in its own transaction. Before the first
+ * destructive step, the database is copied to `backupPath(version)`, unless
+ * it has no tables yet. Databases from before versioning are at version 0
+ * too, so the version alone does not tell an empty database apart.
+ */
+export function runMigrations(db: SqliteDatabase, backupPath: (version: number) => string): MigrationSummary {
+  const fromVersion = getSchemaVersion(db);
+  const pending = pendingMigrations(fromVersion);
+  const summary: MigrationSummary = { fromVersion, toVersion: fromVersion, steps: [], backupPath: null, dryRun: false };
+  const empty = !db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' LIMIT 1").get();
+  if (!pending.length) {
+    return summary;
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_ms INTEGER NOT NULL
+    )
+  `);
+  const record = db.prepare('INSERT INTO schema_version (version, description, applied_ms) VALUES (?, ?, ?)');
+
+  for (const migration of pending) {
+    if (migration.destructive && !summary.backupPath && !empty) {
+      summary.backupPath = backupPath(summary.toVersion);
+      db.prepare('VACUUM INTO ?').run(summary.backupPath);
+    }
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.description, Date.now());
+    })();
+    summary.toVersion = migration.version;
+    summary.steps.push(toStep(migration));
+  }
+
+  return summary;
+}
+
+/**
+ * Describe what `runMigrations` would do without changing the database.
+ * Pass null for a database that does not exist yet.
+ */
+export function planMigrations(db: SqliteDatabase | null): MigrationSummary {
+  const fromVersion = db ? getSchemaVersion(db) : 0;
+  const pending = pendingMigrations(fromVersion);
+  return {
+    fromVersion,
+    toVersion: pending.length ? pending[pending.length - 1].version : fromVersion,
+    steps: pending.map(toStep),
+    backupPath: null,
+    dryRun: true
+  };
+}
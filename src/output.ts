@@ -0,0 +1,55 @@
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export interface ErrorRecord {
+  error: {
+    message: string;
+    name: string;
+  };
+}
+
+let outputFormat: OutputFormat = 'text';
+
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+export function isMachineOutput(): boolean {
+  return outputFormat !== 'text';
+}
+
+/**
+ * Print a single record: pretty JSON in `json` mode, one line in `ndjson` mode.
+ */
+export function emitRecord(record: unknown): void {
+  if (outputFormat === 'ndjson') {
+    process.stdout.write(`${JSON.stringify(record)}\n`);
+  } else {
+    process.stdout.write(`${JSON.stringify(record, null, 2)}\n`);
+  }
+}
+
+/**
+ * Print a list of records: one JSON array in `json` mode, one line per record in `ndjson` mode.
+ */
+export function emitRecords(records: unknown[]): void {
+  if (outputFormat === 'ndjson') {
+    for (const record of records) {
+      process.stdout.write(`${JSON.stringify(record)}\n`);
+    }
+  } else {
+    process.stdout.write(`${JSON.stringify(records, null, 2)}\n`);
+  }
+}
+
+export function toErrorRecord(error: unknown): ErrorRecord {
+  return {
+    error: {
+      message: error instanceof Error ? error.message : String(error),
+      name: error instanceof Error ? error.name : 'Error'
+    }
+  };
+}
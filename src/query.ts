@@ -0,0 +1,125 @@
+export interface QueryFilters {
+  /** Only search these repositories (any of them). */
+  repos?: string[];
+  excludeRepos?: string[];
+  /** Directory prefixes or globs the path must match (any of them). */
+  paths?: string[];
+  excludePaths?: string[];
+  /** File extensions without the dot, e.g. `ts` (any of them). */
+  extensions?: string[];
+  excludeExtensions?: string[];
+}
+
+export interface ParsedQuery {
+  /** Query text with the filter operators removed. */
+  text: string;
+  filters: QueryFilters;
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  python: ['py', 'pyi'],
+  go: ['go'],
+  rust: ['rs'],
+  java: ['java'],
+  kotlin: ['kt', 'kts'],
+  c: ['c', 'h'],
+  cpp: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx'],
+  csharp: ['cs'],
+  ruby: ['rb'],
+  php: ['php'],
+  swift: ['swift'],
+  scala: ['scala'],
+  shell: ['sh', 'bash', 'zsh'],
+  markdown: ['md', 'mdx'],
+  json: ['json'],
+  yaml: ['yml', 'yaml'],
+  html: ['html', 'htm'],
+  css: ['css', 'scss', 'less'],
+  sql: ['sql']
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin',
+  'c++': 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  md: 'markdown',
+  yml: 'yaml'
+};
+
+// `-?op:value` or `-?op:"quoted value"`, only at the start of a word
+const FILTER_PATTERN = /(^|\s)(-?)(repo|path|ext|lang):(?:"([^"]*)"|(\S+))/g;
+
+function push(target: QueryFilters, key: keyof QueryFilters, values: string[]): void {
+  target[key] = [...(target[key] ?? []), ...values];
+}
+
+export function languageExtensions(language: string): string[] {
+  const normalized = language.toLowerCase();
+  const extensions = LANGUAGE_EXTENSIONS[LANGUAGE_ALIASES[normalized] ?? normalized];
+  if (!extensions) {
+    throw new Error(`Unknown language "${language}". Known languages: ${Object.keys(LANGUAGE_EXTENSIONS).join(', ')}`);
+  }
+  return extensions;
+}
+
+/**
+ * Split filter operators (`repo:`, `path:`, `ext:`, `lang:` and their `-` negations)
+ * out of a search query. Values may be quoted to include spaces.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const filters: QueryFilters = {};
+
+  const text = query
+    .replace(FILTER_PATTERN, (_match, lead: string, negate: string, operator: string, quoted?: string, bare?: string) => {
+      const value = (quoted ?? bare ?? '').trim();
+      if (!value) {
+        return lead;
+      }
+      const exclude = negate === '-';
+      switch (operator) {
+        case 'repo':
+          push(filters, exclude ? 'excludeRepos' : 'repos', [value]);
+          break;
+        case 'path':
+          push(filters, exclude ? 'excludePaths' : 'paths', [value.replace(/^\.?\/+/, '').replace(/\/+$/, '')]);
+          break;
+        case 'ext':
+          push(filters, exclude ? 'excludeExtensions' : 'extensions', [value.replace(/^\./, '').toLowerCase()]);
+          break;
+        case 'lang':
+          push(filters, exclude ? 'excludeExtensions' : 'extensions', languageExtensions(value));
+          break;
+      }
+      return lead;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { text, filters };
+}
+
+/**
+ * Combine two filter sets; list entries from both are kept.
+ */
+export function mergeFilters(base: QueryFilters | undefined, extra: QueryFilters): QueryFilters {
+  const merged: QueryFilters = { ...base };
+  for (const [key, values] of Object.entries(extra) as Array<[keyof QueryFilters, string[]]>) {
+    push(merged, key, values);
+  }
+  return merged;
+}
+
+export function hasFilters(filters: QueryFilters | undefined): boolean {
+  return !!filters && Object.values(filters).some((values) => values && values.length > 0);
+}
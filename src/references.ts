@@ -0,0 +1,152 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { getSqliteDb } from './db.js';
+import { findDefinitions, maskCommentsAndStrings } from './symbols.js';
+import { parseRepoPath, resolveRepoPath } from './util.js';
+
+export interface ReferenceOptions {
+  repo?: string;
+  /**
+   * `repo/path` to rank references against. Defaults to the definition sites
+   * of the name in the symbol index.
+   */
+  from?: string;
+  limit?: number;
+}
+
+export interface SymbolReference {
+  repo: string;
+  path: string;
+  line: number;
+  column: number;
+  endColumn: number;
+  text: string;
+  /** Whether the reference is in the same repository as the anchor. */
+  sameRepo: boolean;
+}
+
+interface Anchor {
+  repo: string;
+  path: string;
+}
+
+const DEFAULT_REFERENCE_LIMIT = 100;
+const MAX_ANCHORS = 20;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build an FTS phrase that matches the identifier's tokens, used to shortlist
+ * candidate files before scanning them line by line.
+ */
+function ftsPhrase(identifier: string): string | null {
+  const tokens = identifier.match(/[A-Za-z0-9]+/g);
+  return tokens ? `"${tokens.join(' ')}"` : null;
+}
+
+function sharedDirectoryDepth(a: string, b: string): number {
+  const aParts = path.posix.dirname(a).split('/');
+  const bParts = path.posix.dirname(b).split('/');
+  let depth = 0;
+  while (depth < aParts.length && depth < bParts.length && aParts[depth] === bParts[depth] && aParts[depth] !== '.') {
+    depth += 1;
+  }
+  return depth;
+}
+
+/**
+ * Rank a file against the anchors: same repository first, then the number of
+ * leading directories shared with the closest anchor.
+ */
+function proximity(file: Anchor, anchors: Anchor[]): { sameRepo: boolean; depth: number } {
+  let best = { sameRepo: false, depth: -1 };
+  for (const anchor of anchors) {
+    const sameRepo = anchor.repo === file.repo;
+    const depth = sameRepo ? sharedDirectoryDepth(anchor.path, file.path) : -1;
+    if (Number(sameRepo) > Number(best.sameRepo) || (sameRepo === best.sameRepo && depth > best.depth)) {
+      best = { sameRepo, depth };
+    }
+  }
+  return best;
+}
+
+/**
+ * Find usages of an identifier across indexed repositories. Matches respect
+ * identifier boundaries, skip comments and string literals in languages with a
+ * symbol extractor, and leave out the definition lines themselves.
+ */
+export async function findReferences(name: string, options: ReferenceOptions = {}): Promise<SymbolReference[]> {
+  const db = await getSqliteDb();
+  const limit = options.limit ?? DEFAULT_REFERENCE_LIMIT;
+  const identifier = name.split(/\.|::/).pop() ?? name;
+  const phrase = ftsPhrase(identifier);
+  if (!phrase) {
+    throw new Error(`Not an identifier: ${name}`);
+  }
+
+  const definitions = await findDefinitions(identifier, { limit: MAX_ANCHORS });
+  const definitionLines = new Set(definitions.map((symbol) => `${symbol.repo}:${symbol.path}:${symbol.startLine}`));
+
+  const anchors: Anchor[] = options.from ? [parseRepoPath(options.from)] : definitions;
+
+  const filters = ['file_fts MATCH ?'];
+  const params: string[] = [phrase];
+  if (options.repo) {
+    filters.push('m.repo = ?');
+    params.push(options.repo);
+  }
+
+  const candidates = (db
+    .prepare(`
+      SELECT DISTINCT m.repo AS repo, m.path AS path
+      FROM file_fts
+      JOIN file_segments s ON s.id = file_fts.rowid
+      JOIN file_meta m ON m.id = s.file_id
+      WHERE ${filters.join(' AND ')}
+    `)
+    .all(...params) as Anchor[])
+    .map((file) => ({ ...file, ...proximity(file, anchors) }))
+    .sort((a, b) => Number(b.sameRepo) - Number(a.sameRepo) || b.depth - a.depth || a.repo.localeCompare(b.repo) || a.path.localeCompare(b.path));
+
+  const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(identifier)}(?![\\w$])`, 'g');
+  const references: SymbolReference[] = [];
+
+  for (const file of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(resolveRepoPath(file.repo), file.path), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const lines = content.split(/\r?\n/);
+    const code = maskCommentsAndStrings(file.path, lines);
+
+    for (let i = 0; i < code.length; i += 1) {
+      if (definitionLines.has(`${file.repo}:${file.path}:${i + 1}`)) {
+        continue;
+      }
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(code[i])) !== null) {
+        references.push({
+          repo: file.repo,
+          path: file.path,
+          line: i + 1,
+          column: match.index + 1,
+          endColumn: match.index + identifier.length + 1,
+          text: lines[i],
+          sameRepo: file.sameRepo
+        });
+        if (references.length >= limit) {
+          return references;
+        }
+      }
+    }
+  }
+
+  return references;
+}
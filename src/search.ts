@@ -1,13 +1,52 @@
-import { getLanceTable, getSqliteDb } from './db.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { attachBlame } from './blame.js';
+import { assertEmbeddingCompatible, getLanceTable, getSqliteDb } from './db.js';
 import { embedText } from './embed.js';
+import { findQueryMatches, rangeMatch, type SearchMatch } from './matches.js';
+import { mergeFilters, parseQuery, type QueryFilters } from './query.js';
+import { escapeFilterValue, escapeLikePattern, globToSqlPattern, hasGlobChars, resolveRepoPath } from './util.js';
+import { expandRepoSelectors } from './versions.js';
+
+export type { SearchMatch } from './matches.js';
 
 export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
 
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+/**
+ * How hybrid search combines the keyword and semantic rankings:
+ * - `rrf`: reciprocal rank fusion, `weight / (rrfK + rank)` summed over both lists
+ * - `linear`: min-max normalize each list's raw scores to 0..1, then blend by weight
+ * - `weighted`: blend `r/(1+r)` for BM25 relevance `r = -bm25` and `1/(1+distance)` by weight (the default, and the original behavior)
+ */
+export type FusionStrategy = 'rrf' | 'linear' | 'weighted';
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ['rrf', 'linear', 'weighted'];
+export const DEFAULT_FUSION: FusionStrategy = 'weighted';
+export const DEFAULT_RRF_K = 60;
+export const DEFAULT_KEYWORD_WEIGHT = 0.4;
+export const DEFAULT_SEMANTIC_WEIGHT = 0.6;
+const MIN_HYBRID_CANDIDATES = 50;
+
 export interface SearchOptions {
   repo?: string;
+  /** Filters applied on top of any `repo:`/`path:`/`ext:`/`lang:` operators in the query. */
+  filters?: QueryFilters;
   limit?: number;
   semanticWeight?: number;
   keywordWeight?: number;
+  fusion?: FusionStrategy;
+  rrfK?: number;
+  /** Keyword results fetched before fusion (default: the larger of 3 × limit and 50). */
+  keywordCandidates?: number;
+  /** Semantic results fetched before fusion (default: the larger of 3 × limit and 50). */
+  semanticCandidates?: number;
+  contextLines?: number;
+  maxMatchesPerFile?: number;
+  /** Attach the commit that last changed each matched line. */
+  withBlame?: boolean;
 }
 
 export interface SearchResult {
@@ -15,8 +54,13 @@ export interface SearchResult {
   path: string;
   filename: string;
   snippet: string | null;
+  startLine?: number;
+  endLine?: number;
+  matches?: SearchMatch[];
   keywordScore?: number;
   semanticScore?: number;
+  bm25?: number;
+  distance?: number;
   score: number;
   mode: SearchMode;
 }
@@ -25,7 +69,7 @@ interface KeywordRow {
   repo: string;
   path: string;
   filename: string;
-  snippet: string | null;
+  segment_id: number;
   bm25: number;
 }
 
@@ -36,15 +80,27 @@ interface SemanticRow {
   mtime_ms: number;
   size_bytes: number;
   hash: string;
+  chunk_index: number;
+  start_line: number;
+  end_line: number;
   _distance?: number;
   score?: number;
 }
 
+// Several chunks of one file can rank next to each other, so fetch extra
+// candidates to still return `limit` distinct files after deduplication.
+const SEMANTIC_CHUNK_OVERFETCH = 4;
+
+/**
+ * Map FTS5's bm25 to 0..1, higher is better. bm25 is negative, and more
+ * negative for better matches.
+ */
 function normalizeKeywordScore(bm25: number): number {
   if (!Number.isFinite(bm25)) {
     return 0;
   }
-  return 1 / (1 + Math.max(bm25, 0));
+  const relevance = Math.max(-bm25, 0);
+  return relevance / (1 + relevance);
 }
 
 function normalizeSemanticScore(distance: number | undefined): number {
@@ -54,46 +110,131 @@ function normalizeSemanticScore(distance: number | undefined): number {
   return 1 / (1 + Math.max(distance, 0));
 }
 
-function escapeFilterValue(value: string): string {
-  return value.replace(/\\/g, '\\\\').replace(/'/g, "''");
+/**
+ * Split the filter operators out of the query and merge them with `options.filters`.
+ * `options.repo` stays a separate constraint that every result must also meet.
+ * Repository selectors such as `name@*` and `name@latest` are expanded to the
+ * indexed repository names they stand for.
+ */
+async function resolveQuery(query: string, options: SearchOptions): Promise<{ text: string; filters: QueryFilters; repos?: string[] }> {
+  const parsed = parseQuery(query);
+  if (!parsed.text) {
+    throw new Error('Search query needs at least one term besides filters.');
+  }
+  const filters = mergeFilters(options.filters, parsed.filters);
+  if (filters.repos?.length) {
+    filters.repos = await expandRepoSelectors(filters.repos);
+  }
+  if (filters.excludeRepos?.length) {
+    filters.excludeRepos = await expandRepoSelectors(filters.excludeRepos);
+  }
+  const repos = options.repo ? await expandRepoSelectors([options.repo]) : undefined;
+  return { text: parsed.text, filters, repos };
+}
+
+/**
+ * Turn filters into predicates over `repo` and `path` columns. `literal` renders a
+ * value, either as a bound parameter (SQLite) or an inline string (LanceDB).
+ * LIKE patterns escape with a backslash; `likeEscape` is the clause that says
+ * so, which LanceDB does not accept but applies by default.
+ */
+function filterPredicates(
+  filters: QueryFilters,
+  column: (name: string) => string,
+  literal: (value: string) => string,
+  likeEscape: string
+): string[] {
+  const predicates: string[] = [];
+  const like = (name: string, pattern: string) => `${column(name)} LIKE ${literal(pattern)}${likeEscape}`;
+  const pathPredicate = (value: string) =>
+    hasGlobChars(value)
+      ? like('path', globToSqlPattern(value))
+      : `(${column('path')} = ${literal(value)} OR ${like('path', `${escapeLikePattern(value)}/%`)})`;
+  const extensionPredicate = (value: string) =>
+    `lower(${column('path')}) LIKE ${literal(`%.${escapeLikePattern(value)}`)}${likeEscape}`;
+  const anyOf = (values: string[] | undefined, toPredicate: (value: string) => string) => {
+    if (values?.length) {
+      predicates.push(`(${values.map(toPredicate).join(' OR ')})`);
+    }
+  };
+  const noneOf = (values: string[] | undefined, toPredicate: (value: string) => string) => {
+    for (const value of values ?? []) {
+      predicates.push(`NOT ${toPredicate(value)}`);
+    }
+  };
+
+  anyOf(filters.repos, (value) => `${column('repo')} = ${literal(value)}`);
+  noneOf(filters.excludeRepos, (value) => `${column('repo')} = ${literal(value)}`);
+  anyOf(filters.paths, pathPredicate);
+  noneOf(filters.excludePaths, pathPredicate);
+  anyOf(filters.extensions, extensionPredicate);
+  noneOf(filters.excludeExtensions, extensionPredicate);
+  return predicates;
 }
 
 export async function keywordSearch(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
   const db = await getSqliteDb();
   const limit = options.limit ?? 20;
+  const { text, filters: queryFilters, repos } = await resolveQuery(query, options);
 
+  // Large files have several segments; each file ranks by its best one. The
+  // matches are materialized first, as bm25() only works on the FTS scan itself
   const baseSql = `
+    WITH matched AS MATERIALIZED (
+      SELECT rowid AS segment_id, bm25(file_fts) AS bm25
+      FROM file_fts
+      WHERE file_fts MATCH ?
+    )
     SELECT m.repo AS repo,
            m.path AS path,
            m.filename AS filename,
-           snippet(file_fts, 3, '[', ']', ' … ', 24) AS snippet,
-           bm25(file_fts) AS bm25
-    FROM file_fts
-    JOIN file_meta m ON m.id = file_fts.rowid
-    WHERE file_fts MATCH ?
+           matched.segment_id AS segment_id,
+           MIN(matched.bm25) AS bm25
+    FROM matched
+    JOIN file_segments s ON s.id = matched.segment_id
+    JOIN file_meta m ON m.id = s.file_id
   `;
 
   const filters: string[] = [];
-  const params: Array<string | number> = [query];
+  const params: Array<string | number> = [text];
 
-  if (options.repo) {
-    filters.push('m.repo = ?');
-    params.push(options.repo);
+  if (repos) {
+    filters.push(`m.repo IN (${repos.map(() => '?').join(', ')})`);
+    params.push(...repos);
   }
 
-  const sql = `${baseSql}${filters.length ? ` AND ${filters.join(' AND ')}` : ''} ORDER BY bm25 LIMIT ?`;
+  filters.push(
+    ...filterPredicates(
+      queryFilters,
+      (name) => `m.${name}`,
+      (value) => {
+        params.push(value);
+        return '?';
+      },
+      " ESCAPE '\\'"
+    )
+  );
+
+  const sql = `${baseSql}${filters.length ? ` WHERE ${filters.join(' AND ')}` : ''} GROUP BY s.file_id ORDER BY bm25 LIMIT ?`;
   params.push(limit);
 
   const rows = db.prepare(sql).all(...params) as KeywordRow[];
+  const snippetStmt = db.prepare(`
+    SELECT snippet(file_fts, 3, '[', ']', ' … ', 24) AS snippet
+    FROM file_fts
+    WHERE file_fts MATCH ? AND rowid = ?
+  `);
 
   return rows.map((row) => {
     const keywordScore = normalizeKeywordScore(row.bm25);
+    const snippetRow = snippetStmt.get(text, row.segment_id) as { snippet: string | null } | undefined;
     return {
       repo: row.repo,
       path: row.path,
       filename: row.filename,
-      snippet: row.snippet,
+      snippet: snippetRow?.snippet ?? null,
       keywordScore,
+      bm25: row.bm25,
       score: keywordScore,
       mode: 'keyword'
     } satisfies SearchResult;
@@ -102,70 +243,132 @@ export async function keywordSearch(query: string, options: SearchOptions = {}):
 
 export async function semanticSearch(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
   const limit = options.limit ?? 20;
+  const { text, filters: queryFilters, repos } = await resolveQuery(query, options);
+  await assertEmbeddingCompatible();
   const [table, db] = await Promise.all([getLanceTable(), getSqliteDb()]);
-  const queryEmbedding = await embedText(query);
+  const queryEmbedding = await embedText(text);
 
   let searchBuilder = table
     .vectorSearch(Array.from(queryEmbedding))
     .column('vector')
-    .select(['id', 'repo', 'path', 'filename', 'mtime_ms', 'size_bytes', 'hash']);
+    .select(['id', 'repo', 'path', 'filename', 'mtime_ms', 'size_bytes', 'hash', 'chunk_index', 'start_line', 'end_line']);
+
+  const filters = filterPredicates(queryFilters, (name) => name, (value) => `'${escapeFilterValue(value)}'`, '');
+  if (repos) {
+    filters.unshift(`repo IN (${repos.map((repo) => `'${escapeFilterValue(repo)}'`).join(', ')})`);
+  }
+  if (filters.length) {
+    searchBuilder = searchBuilder.where(filters.join(' AND '));
+  }
+
+  const rows = (await searchBuilder.limit(limit * SEMANTIC_CHUNK_OVERFETCH).toArray()) as SemanticRow[];
 
-  if (options.repo) {
-    const filter = `repo = '${escapeFilterValue(options.repo)}'`;
-    searchBuilder = searchBuilder.where(filter);
+  // Keep only the best-scoring chunk of each file
+  const bestByFile = new Map<string, SemanticRow>();
+  for (const row of rows) {
+    const key = `${row.repo}:${row.path}`;
+    const existing = bestByFile.get(key);
+    if (!existing || (row._distance ?? row.score ?? Infinity) < (existing._distance ?? existing.score ?? Infinity)) {
+      bestByFile.set(key, row);
+    }
   }
+  const results = Array.from(bestByFile.values())
+    .sort((a, b) => (a._distance ?? a.score ?? Infinity) - (b._distance ?? b.score ?? Infinity))
+    .slice(0, limit);
 
-  const results = (await searchBuilder.limit(limit).toArray()) as SemanticRow[];
+  // The matching segment nearest the chunk, preferring the one it starts in
   const snippetStmt = db.prepare(`
     SELECT snippet(file_fts, 3, '[', ']', ' … ', 24) AS snippet
     FROM file_fts
-    WHERE repo = ? AND path = ? AND file_fts MATCH ?
+    JOIN file_segments s ON s.id = file_fts.rowid
+    WHERE file_fts.repo = ? AND file_fts.path = ? AND file_fts MATCH ?
+    ORDER BY s.start_line > ?, ABS(s.start_line - ?)
     LIMIT 1
   `);
 
   return results.map((row) => {
     const distance = row._distance ?? row.score;
     const semanticScore = normalizeSemanticScore(distance);
-    const snippetRow = snippetStmt.get(row.repo, row.path, query) as { snippet: string | null } | undefined;
+    const snippetRow = snippetStmt.get(row.repo, row.path, text, row.start_line, row.start_line) as { snippet: string | null } | undefined;
     return {
       repo: row.repo,
       path: row.path,
       filename: row.filename,
       snippet: snippetRow?.snippet ?? null,
+      startLine: row.start_line,
+      endLine: row.end_line,
       semanticScore,
+      distance,
       score: semanticScore,
       mode: 'semantic'
     } satisfies SearchResult;
   });
 }
 
+/**
+ * Min-max normalize raw scores (higher is better) to 0..1; a constant list maps to 1.
+ */
+function minMaxNormalize(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map((value) => (max > min ? (value - min) / (max - min) : 1));
+}
+
+/**
+ * Per-result contribution of one ranked list to the fused score.
+ */
+function fusionContributions(results: SearchResult[], side: 'keyword' | 'semantic', fusion: FusionStrategy, rrfK: number): number[] {
+  switch (fusion) {
+    case 'rrf':
+      return results.map((_, rank) => 1 / (rrfK + rank + 1));
+    case 'linear': {
+      // bm25 and distance are both lower-is-better
+      const raw = results.map((result) => -((side === 'keyword' ? result.bm25 : result.distance) ?? 0));
+      return minMaxNormalize(raw);
+    }
+    case 'weighted':
+      return results.map((result) => (side === 'keyword' ? result.keywordScore : result.semanticScore) ?? 0);
+    default:
+      throw new Error(`Unsupported fusion strategy: ${fusion}`);
+  }
+}
+
 export async function hybridSearch(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
-  const semanticWeight = options.semanticWeight ?? 0.6;
-  const keywordWeight = options.keywordWeight ?? 0.4;
+  const limit = options.limit ?? 20;
+  const semanticWeight = options.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT;
+  const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+  const fusion = options.fusion ?? DEFAULT_FUSION;
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  const defaultCandidates = Math.max(limit * 3, MIN_HYBRID_CANDIDATES);
 
   const [keywordResults, semanticResults] = await Promise.all([
-    keywordSearch(query, options),
-    semanticSearch(query, options)
+    keywordSearch(query, { ...options, limit: options.keywordCandidates ?? defaultCandidates }),
+    semanticSearch(query, { ...options, limit: options.semanticCandidates ?? defaultCandidates })
   ]);
 
+  const keywordContributions = fusionContributions(keywordResults, 'keyword', fusion, rrfK);
+  const semanticContributions = fusionContributions(semanticResults, 'semantic', fusion, rrfK);
   const combined = new Map<string, SearchResult>();
 
-  for (const result of keywordResults) {
+  keywordResults.forEach((result, index) => {
     const key = `${result.repo}:${result.path}`;
     combined.set(key, {
       ...result,
-      score: (result.keywordScore ?? 0) * keywordWeight,
+      score: keywordContributions[index] * keywordWeight,
       mode: 'hybrid'
     });
-  }
+  });
 
-  for (const result of semanticResults) {
+  semanticResults.forEach((result, index) => {
     const key = `${result.repo}:${result.path}`;
     const existing = combined.get(key);
-    const semanticContribution = (result.semanticScore ?? 0) * semanticWeight;
+    const semanticContribution = semanticContributions[index] * semanticWeight;
 
     if (existing) {
       existing.semanticScore = result.semanticScore;
+      existing.distance = result.distance;
+      existing.startLine = result.startLine;
+      existing.endLine = result.endLine;
       existing.score += semanticContribution;
     } else {
       combined.set(key, {
@@ -175,14 +378,49 @@ export async function hybridSearch(query: string, options: SearchOptions = {}):
         mode: 'hybrid'
       });
     }
-  }
+  });
 
   return Array.from(combined.values())
     .sort((a, b) => b.score - a.score)
-    .slice(0, options.limit ?? 20);
+    .slice(0, limit);
 }
 
-export async function search(query: string, mode: SearchMode, options: SearchOptions = {}): Promise<SearchResult[]> {
+/**
+ * Fill in `matches` for each result by locating the query terms in the cached file.
+ * Results with a chunk line range only look inside that range, and fall back to
+ * the range itself when none of the terms occur there.
+ */
+export async function attachMatches(results: SearchResult[], query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  for (const result of results) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(resolveRepoPath(result.repo), result.path), 'utf-8');
+    } catch {
+      // File missing from the cache, keep the snippet only
+      continue;
+    }
+
+    const matches = findQueryMatches(content, query, {
+      contextLines: options.contextLines,
+      maxMatches: options.maxMatchesPerFile,
+      startLine: result.startLine,
+      endLine: result.endLine
+    });
+
+    if (!matches.length && result.startLine !== undefined && result.endLine !== undefined) {
+      matches.push(rangeMatch(content, result.startLine, result.endLine, options.contextLines));
+    }
+
+    if (options.withBlame) {
+      await attachBlame(result.repo, result.path, matches);
+    }
+
+    result.matches = matches;
+  }
+  return results;
+}
+
+async function runSearch(query: string, mode: SearchMode, options: SearchOptions): Promise<SearchResult[]> {
   switch (mode) {
     case 'keyword':
       return keywordSearch(query, options);
@@ -194,3 +432,8 @@ export async function search(query: string, mode: SearchMode, options: SearchOpt
       throw new Error(`Unsupported search mode: ${mode}`);
   }
 }
+
+export async function search(query: string, mode: SearchMode, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const results = await runSearch(query, mode, options);
+  return attachMatches(results, parseQuery(query).text, options);
+}
@@ -0,0 +1,472 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+
+import { globFiles, grepFiles, listDirectory, readIndexedFile } from './browse.js';
+import { getLanceTable, getSqliteDb, listRepoIndex } from './db.js';
+import { currentEmbeddingIdentity, preloadEmbeddingModel } from './embed.js';
+import { addRepository, indexRepository, reembedIndex, syncRepositories, type IndexSummary, type ReembedSummary, type SyncResult } from './indexer.js';
+import { FUSION_STRATEGIES, search, type FusionStrategy, type SearchMode } from './search.js';
+import { findReferences } from './references.js';
+import { searchHistory, type LogMode } from './history.js';
+import { SYMBOL_KINDS, findDefinitions, findSymbols, type SymbolKind } from './symbols.js';
+import { DATA_DIR, SERVER_INFO_PATH, ensureDataLayout, safeRepoNameFromPath } from './util.js';
+
+export const DEFAULT_SERVER_HOST = '127.0.0.1';
+export const DEFAULT_SERVER_PORT = 4747;
+const MAX_BODY_BYTES = 1024 * 1024;
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '::1']);
+
+export interface ServerOptions {
+  host?: string;
+  port?: number;
+  version: string;
+  onLog?: (message: string) => void;
+}
+
+export interface ServerInfo {
+  host: string;
+  port: number;
+  pid: number;
+  version: string;
+  startedMs: number;
+}
+
+/**
+ * What the server writes to its info file in the data directory: its address
+ * and the token clients send as `Authorization: Bearer <token>`.
+ */
+export interface ServerInfoFile extends ServerInfo {
+  token: string;
+}
+
+export type JobKind = 'index' | 'add' | 'sync' | 'reembed';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IndexJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  request: Record<string, unknown>;
+  result: IndexSummary | SyncResult[] | ReembedSummary | null;
+  error: string | null;
+  createdMs: number;
+  startedMs: number | null;
+  finishedMs: number | null;
+}
+
+export interface RunningServer {
+  info: ServerInfo;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Body = Record<string, unknown>;
+type Handler = (body: Body, params: string[]) => Promise<unknown>;
+
+function optionalString(body: Body, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `"${key}" must be a string`);
+  }
+  return value;
+}
+
+function requiredString(body: Body, key: string): string {
+  const value = optionalString(body, key);
+  if (!value) {
+    throw new HttpError(400, `"${key}" is required`);
+  }
+  return value;
+}
+
+function optionalNumber(body: Body, key: string): number | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new HttpError(400, `"${key}" must be a number`);
+  }
+  return parsed;
+}
+
+function symbolKinds(body: Body): SymbolKind[] | undefined {
+  if (!Array.isArray(body.kinds)) {
+    return undefined;
+  }
+  const kinds = body.kinds.map(String) as SymbolKind[];
+  const unknownKind = kinds.find((kind) => !SYMBOL_KINDS.includes(kind));
+  if (unknownKind) {
+    throw new HttpError(400, `Unknown symbol kind: ${unknownKind}`);
+  }
+  return kinds;
+}
+
+function isLoopbackHostname(hostname: string): boolean {
+  const name = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  return LOOPBACK_HOSTNAMES.has(name) || /^127\.\d+\.\d+\.\d+$/.test(name);
+}
+
+/** Hostname of a `Host` header or an `Origin`, or null when it does not parse. */
+function parseHostname(value: string, withScheme: boolean): string | null {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function hasToken(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Turn away requests a web page could make: browsers send their `Origin`, a
+ * DNS-rebound page reaches us under a foreign `Host`, and form posts cannot
+ * use a JSON content type. Jobs, and every route of a server bound beyond
+ * loopback, also need the token from the server info file.
+ */
+function checkRequest(req: http.IncomingMessage, pathname: string, token: string, exposed: boolean): void {
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    const hostname = parseHostname(origin, true);
+    if (!hostname || !isLoopbackHostname(hostname)) {
+      throw new HttpError(403, `Requests from origin ${origin} are not allowed`);
+    }
+  }
+  if (!exposed) {
+    const hostname = parseHostname(req.headers.host ?? '', false);
+    if (!hostname || !isLoopbackHostname(hostname)) {
+      throw new HttpError(403, `Unexpected Host header: ${req.headers.host ?? '(none)'}`);
+    }
+  }
+  if (req.method === 'POST') {
+    const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (contentType !== 'application/json') {
+      throw new HttpError(415, 'Content-Type must be application/json');
+    }
+  }
+  if ((exposed || pathname === '/jobs' || pathname.startsWith('/jobs/')) && !hasToken(req, token)) {
+    throw new HttpError(401, `Missing or wrong token; it is in ${SERVER_INFO_PATH}`);
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Body> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed as Body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  const body = JSON.stringify(payload);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(body)
+  });
+  res.end(body);
+}
+
+/**
+ * Run a long-lived query server that keeps the embedding model and database
+ * handles warm. Indexing requests run as queued background jobs, one at a time.
+ */
+export async function startServer(options: ServerOptions): Promise<RunningServer> {
+  await ensureDataLayout();
+  const host = options.host ?? DEFAULT_SERVER_HOST;
+  const port = options.port ?? DEFAULT_SERVER_PORT;
+  const log = options.onLog ?? (() => {});
+  const exposed = !isLoopbackHostname(host);
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await getSqliteDb();
+  await getLanceTable();
+  // The model can take a while to load (or download); queries wait for it on demand
+  preloadEmbeddingModel().catch((error) => {
+    log(`Could not preload the embedding model: ${error instanceof Error ? error.message : String(error)}`);
+  });
+
+  const jobs = new Map<string, IndexJob>();
+  let jobCounter = 0;
+  let jobQueue: Promise<void> = Promise.resolve();
+
+  const enqueueJob = (kind: JobKind, request: Body, run: () => Promise<IndexSummary | SyncResult[] | ReembedSummary>): IndexJob => {
+    jobCounter += 1;
+    const job: IndexJob = {
+      id: String(jobCounter),
+      kind,
+      status: 'queued',
+      request,
+      result: null,
+      error: null,
+      createdMs: Date.now(),
+      startedMs: null,
+      finishedMs: null
+    };
+    jobs.set(job.id, job);
+
+    jobQueue = jobQueue.then(async () => {
+      job.status = 'running';
+      job.startedMs = Date.now();
+      try {
+        job.result = await run();
+        job.status = 'succeeded';
+      } catch (error) {
+        job.error = error instanceof Error ? error.message : String(error);
+        job.status = 'failed';
+      }
+      job.finishedMs = Date.now();
+      log(`Job ${job.id} (${kind}) ${job.status}`);
+    });
+
+    return job;
+  };
+
+  const routes: Record<string, Handler> = {
+    'GET /health': async () => ({
+      ok: true,
+      version: options.version,
+      pid: process.pid,
+      dataDir: DATA_DIR,
+      embedding: currentEmbeddingIdentity()
+    }),
+    'GET /repos': async () => listRepoIndex(),
+    'POST /search': async (body) => {
+      const mode = (optionalString(body, 'mode') ?? 'keyword') as SearchMode;
+      if (!['keyword', 'semantic', 'hybrid'].includes(mode)) {
+        throw new HttpError(400, `Unsupported search mode: ${mode}`);
+      }
+      const fusion = optionalString(body, 'fusion') as FusionStrategy | undefined;
+      if (fusion && !FUSION_STRATEGIES.includes(fusion)) {
+        throw new HttpError(400, `Unsupported fusion strategy: ${fusion}`);
+      }
+      return search(requiredString(body, 'query'), mode, {
+        repo: optionalString(body, 'repo'),
+        limit: optionalNumber(body, 'limit'),
+        contextLines: optionalNumber(body, 'contextLines'),
+        fusion,
+        rrfK: optionalNumber(body, 'rrfK'),
+        keywordWeight: optionalNumber(body, 'keywordWeight'),
+        semanticWeight: optionalNumber(body, 'semanticWeight'),
+        keywordCandidates: optionalNumber(body, 'keywordCandidates'),
+        semanticCandidates: optionalNumber(body, 'semanticCandidates'),
+        withBlame: body.withBlame === true
+      });
+    },
+    'POST /grep': async (body) => {
+      const pattern = requiredString(body, 'pattern');
+      try {
+        new RegExp(pattern);
+      } catch (err) {
+        throw new HttpError(400, `Invalid regex pattern: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return grepFiles(pattern, {
+        repo: optionalString(body, 'repo'),
+        ignoreCase: body.ignoreCase === true,
+        contextBefore: optionalNumber(body, 'contextBefore'),
+        contextAfter: optionalNumber(body, 'contextAfter'),
+        type: optionalString(body, 'type'),
+        limit: optionalNumber(body, 'limit'),
+        filesOnly: body.filesOnly === true,
+        withBlame: body.withBlame === true
+      });
+    },
+    'POST /read': async (body) =>
+      readIndexedFile(requiredString(body, 'repo'), requiredString(body, 'path'), {
+        offset: optionalNumber(body, 'offset'),
+        limit: optionalNumber(body, 'limit'),
+        blame: body.blame === true
+      }),
+    'POST /ls': async (body) =>
+      listDirectory(optionalString(body, 'path'), {
+        ignore: Array.isArray(body.ignore) ? body.ignore.map(String) : undefined
+      }),
+    'POST /glob': async (body) =>
+      globFiles(requiredString(body, 'pattern'), {
+        repo: optionalString(body, 'repo'),
+        limit: optionalNumber(body, 'limit')
+      }),
+    'POST /symbols': async (body) =>
+      findSymbols(optionalString(body, 'query'), {
+        repo: optionalString(body, 'repo'),
+        kinds: symbolKinds(body),
+        exact: body.exact === true,
+        limit: optionalNumber(body, 'limit')
+      }),
+    'POST /def': async (body) =>
+      findDefinitions(requiredString(body, 'name'), {
+        repo: optionalString(body, 'repo'),
+        kinds: symbolKinds(body),
+        limit: optionalNumber(body, 'limit')
+      }),
+    'POST /refs': async (body) =>
+      findReferences(requiredString(body, 'name'), {
+        repo: optionalString(body, 'repo'),
+        from: optionalString(body, 'from'),
+        limit: optionalNumber(body, 'limit')
+      }),
+    'POST /log': async (body) => {
+      const mode = (optionalString(body, 'mode') ?? 'keyword') as LogMode;
+      if (!['keyword', 'semantic'].includes(mode)) {
+        throw new HttpError(400, `Unsupported log mode: ${mode}`);
+      }
+      return searchHistory(requiredString(body, 'query'), {
+        mode,
+        repo: optionalString(body, 'repo'),
+        path: optionalString(body, 'path'),
+        since: optionalString(body, 'since'),
+        author: optionalString(body, 'author'),
+        limit: optionalNumber(body, 'limit')
+      });
+    },
+    'GET /jobs': async () => Array.from(jobs.values()),
+    'GET /jobs/:id': async (_body, params) => {
+      const job = jobs.get(params[0]);
+      if (!job) {
+        throw new HttpError(404, `Unknown job: ${params[0]}`);
+      }
+      return job;
+    },
+    'POST /jobs/index': async (body) => {
+      const repoPath = path.resolve(requiredString(body, 'path'));
+      try {
+        await fs.access(repoPath);
+      } catch {
+        throw new HttpError(400, `Path not found: ${repoPath}`);
+      }
+      const repo = optionalString(body, 'repo') ?? safeRepoNameFromPath(repoPath);
+      const force = body.force === true;
+      return enqueueJob('index', body, () => indexRepository(repoPath, { repo, force, source: repoPath, progress: false }));
+    },
+    'POST /jobs/add': async (body) => {
+      const url = requiredString(body, 'url');
+      return enqueueJob('add', body, () =>
+        addRepository(url, {
+          repoName: optionalString(body, 'name'),
+          ref: optionalString(body, 'ref'),
+          versioned: body.versioned === true,
+          progress: false
+        })
+      );
+    },
+    'POST /jobs/sync': async (body) => {
+      const repos = Array.isArray(body.repos) ? body.repos.map(String) : undefined;
+      return enqueueJob('sync', body, () => syncRepositories({ repos, force: body.force === true, progress: false }));
+    },
+    'POST /jobs/reembed': async (body) => enqueueJob('reembed', body, () => reembedIndex({ progress: false }))
+  };
+
+  const matchRoute = (method: string, pathname: string): { handler: Handler; params: string[] } | null => {
+    for (const [key, handler] of Object.entries(routes)) {
+      const [routeMethod, routePath] = key.split(' ');
+      if (routeMethod !== method) {
+        continue;
+      }
+      const routeParts = routePath.split('/');
+      const pathParts = pathname.split('/');
+      if (routeParts.length !== pathParts.length) {
+        continue;
+      }
+      const params: string[] = [];
+      const matches = routeParts.every((part, index) => {
+        if (part.startsWith(':')) {
+          params.push(decodeURIComponent(pathParts[index]));
+          return true;
+        }
+        return part === pathParts[index];
+      });
+      if (matches) {
+        return { handler, params };
+      }
+    }
+    return null;
+  };
+
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', `http://${host}`);
+      const pathname = url.pathname.replace(/\/+$/, '') || '/';
+      try {
+        checkRequest(req, pathname, token, exposed);
+        const route = matchRoute(req.method ?? 'GET', pathname);
+        if (!route) {
+          throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+        }
+        const body = req.method === 'POST' ? await readBody(req) : Object.fromEntries(url.searchParams);
+        const result = await route.handler(body, route.params);
+        sendJson(res, pathname.startsWith('/jobs/') && req.method === 'POST' ? 202 : 200, result);
+      } catch (error) {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJson(res, status, { error: { message: error instanceof Error ? error.message : String(error), name: 'Error' } });
+      }
+    })();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const info: ServerInfo = {
+    host,
+    port: typeof address === 'object' && address ? address.port : port,
+    pid: process.pid,
+    version: options.version,
+    startedMs: Date.now()
+  };
+  const infoFile: ServerInfoFile = { ...info, token };
+  // Created fresh so the token is only readable by this user
+  await fs.rm(SERVER_INFO_PATH, { force: true });
+  await fs.writeFile(SERVER_INFO_PATH, JSON.stringify(infoFile, null, 2), { mode: 0o600 });
+  if (exposed) {
+    log(`Listening beyond loopback on ${host}: every request needs the token in ${SERVER_INFO_PATH}`);
+  }
+
+  return {
+    info,
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await fs.rm(SERVER_INFO_PATH, { force: true });
+    }
+  };
+}
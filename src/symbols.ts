@@ -0,0 +1,588 @@
+import path from 'node:path';
+
+import { getSqliteDb } from './db.js';
+import { languageExtensions } from './query.js';
+import { escapeLikePattern } from './util.js';
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'struct' | 'enum' | 'trait' | 'type' | 'constant';
+
+export const SYMBOL_KINDS: SymbolKind[] = ['function', 'method', 'class', 'interface', 'struct', 'enum', 'trait', 'type', 'constant'];
+
+export interface ExtractedSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, interface, impl or receiver type, if any. */
+  container: string | null;
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+}
+
+export interface SymbolRecord extends ExtractedSymbol {
+  repo: string;
+  path: string;
+}
+
+export interface SymbolQueryOptions {
+  repo?: string;
+  kinds?: SymbolKind[];
+  /** Only return symbols whose name equals the query (case-sensitive). */
+  exact?: boolean;
+  limit?: number;
+}
+
+type SymbolLanguage = 'typescript' | 'python' | 'go' | 'rust' | 'java';
+
+interface Container {
+  name: string;
+  kind: SymbolKind | 'impl';
+  endLine: number;
+}
+
+interface Declaration {
+  name: string;
+  kind: SymbolKind | 'impl';
+  container?: string | null;
+  exported: boolean;
+}
+
+interface SymbolRow {
+  repo: string;
+  path: string;
+  name: string;
+  kind: SymbolKind;
+  container: string | null;
+  start_line: number;
+  end_line: number;
+  exported: number;
+}
+
+const SYMBOL_LANGUAGES: Array<[SymbolLanguage, string[]]> = [
+  ['typescript', [...languageExtensions('typescript'), ...languageExtensions('javascript')]],
+  ['python', languageExtensions('python')],
+  ['go', languageExtensions('go')],
+  ['rust', languageExtensions('rust')],
+  ['java', languageExtensions('java')]
+];
+
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'else', 'do', 'try', 'throw', 'typeof', 'await', 'super', 'this'
+]);
+
+const DEFAULT_SYMBOL_LIMIT = 50;
+
+function symbolLanguage(filePath: string): SymbolLanguage | null {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  const entry = SYMBOL_LANGUAGES.find(([, extensions]) => extensions.includes(extension));
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Blank out comments and string literals so braces and parentheses inside them
+ * do not throw off block matching. Column positions are preserved.
+ */
+function stripCode(lines: string[], language: SymbolLanguage): string[] {
+  const charLiterals = language === 'rust' || language === 'java' || language === 'go';
+  const multilineQuote = language === 'typescript' || language === 'go' ? '`' : null;
+  let inBlockComment = false;
+  let openQuote: string | null = null;
+
+  return lines.map((line) => {
+    let result = '';
+    let i = 0;
+    while (i < line.length) {
+      const ch = line[i];
+      const next = line[i + 1];
+
+      if (inBlockComment) {
+        if (ch === '*' && next === '/') {
+          inBlockComment = false;
+          result += '  ';
+          i += 2;
+        } else {
+          result += ' ';
+          i += 1;
+        }
+        continue;
+      }
+
+      if (openQuote) {
+        if (ch === '\\') {
+          result += '  ';
+          i += 2;
+          continue;
+        }
+        if (ch === openQuote) {
+          openQuote = null;
+        }
+        result += ' ';
+        i += 1;
+        continue;
+      }
+
+      if (language === 'python' && ch === '#') {
+        break;
+      }
+      if (language !== 'python' && ch === '/' && next === '/') {
+        break;
+      }
+      if (language !== 'python' && ch === '/' && next === '*') {
+        inBlockComment = true;
+        result += '  ';
+        i += 2;
+        continue;
+      }
+
+      if (ch === "'" && charLiterals) {
+        const literal = /^'(?:\\.[^']*|[^'\\])'/.exec(line.slice(i));
+        if (literal) {
+          result += ' '.repeat(literal[0].length);
+          i += literal[0].length;
+          continue;
+        }
+        // Rust lifetimes such as 'a are not literals
+        result += ch;
+        i += 1;
+        continue;
+      }
+
+      if (ch === '"' || ch === "'" || ch === multilineQuote) {
+        openQuote = ch;
+        result += ' ';
+        i += 1;
+        continue;
+      }
+
+      result += ch;
+      i += 1;
+    }
+
+    // Only template literals and raw strings continue onto the next line
+    if (openQuote && openQuote !== multilineQuote) {
+      openQuote = null;
+    }
+    return result;
+  });
+}
+
+/**
+ * Blank out comments and string literals in the lines of a supported source file;
+ * other files are returned unchanged.
+ */
+export function maskCommentsAndStrings(filePath: string, lines: string[]): string[] {
+  const language = symbolLanguage(filePath);
+  return language ? stripCode(lines, language) : lines;
+}
+
+/**
+ * Find the 0-based line where the declaration starting at `start` ends: the line
+ * closing its `{ ... }` body, or the declaration line itself when it has no body.
+ */
+function braceBlockEnd(code: string[], start: number): number {
+  let depth = 0;
+  let parens = 0;
+  let opened = false;
+
+  for (let i = start; i < code.length; i += 1) {
+    for (const ch of code[i]) {
+      if (ch === '{') {
+        depth += 1;
+        opened = true;
+      } else if (ch === '}') {
+        depth -= 1;
+        if (opened && depth <= 0) {
+          return i;
+        }
+      } else if (ch === '(') {
+        parens += 1;
+      } else if (ch === ')') {
+        parens -= 1;
+      } else if (ch === ';' && !opened && parens <= 0) {
+        return i;
+      }
+    }
+
+    if (!opened && parens <= 0) {
+      const trimmed = code[i].trim();
+      const continues = /(?:[,(=|&<:+\-*]|=>|->)$/.test(trimmed);
+      let next = i + 1;
+      while (next < code.length && !code[next].trim()) {
+        next += 1;
+      }
+      const nextCode = next < code.length ? code[next].trim() : '';
+      if (!continues && !nextCode.startsWith('{') && !nextCode.startsWith('=>')) {
+        return i;
+      }
+    }
+  }
+  return code.length - 1;
+}
+
+/**
+ * Python blocks end at the last non-blank line indented deeper than the declaration.
+ */
+function indentBlockEnd(lines: string[], start: number): number {
+  const indent = indentOf(lines[start]);
+  let end = start;
+  for (let i = start + 1; i < lines.length; i += 1) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+    if (indentOf(lines[i]) <= indent && !/^\s*[)\]]/.test(lines[i])) {
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function matchTypeScript(line: string, container: Container | undefined, topLevel: boolean): Declaration | null {
+  let match = /^\s*(export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'function', exported: !!match[1] };
+  }
+  match = /^\s*(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'class', exported: !!match[1] };
+  }
+  match = /^\s*(export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'interface', exported: !!match[1] };
+  }
+  match = /^\s*(export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<.*>)?\s*=/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'type', exported: !!match[1] };
+  }
+  match = /^\s*(export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'enum', exported: !!match[1] };
+  }
+
+  match = /^\s*(export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(.*)$/.exec(line);
+  if (match && topLevel) {
+    const isFunction = /^(?:async\s+)?(?:function\b|(?:<[^>]*>)?\([^)]*\)?\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\($)/.test(match[3]);
+    if (isFunction) {
+      return { name: match[2], kind: 'function', exported: !!match[1] };
+    }
+    if (match[1]) {
+      return { name: match[2], kind: 'constant', exported: true };
+    }
+    return null;
+  }
+
+  if (container && (container.kind === 'class' || container.kind === 'interface')) {
+    match = /^\s*(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set|declare)\s+)*\*?\s*(#?[A-Za-z_$][\w$]*)\??\s*(?:<[^>]*>)?\s*\(/.exec(line);
+    if (match && !CONTROL_KEYWORDS.has(match[1])) {
+      return { name: match[1], kind: 'method', container: container.name, exported: false };
+    }
+  }
+  return null;
+}
+
+function matchPython(line: string, container: Container | undefined, topLevel: boolean): Declaration | null {
+  let match = /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/.exec(line);
+  if (match) {
+    const isMethod = container?.kind === 'class';
+    return {
+      name: match[1],
+      kind: isMethod ? 'method' : 'function',
+      container: isMethod ? container.name : null,
+      exported: !match[1].startsWith('_') || /^__\w+__$/.test(match[1])
+    };
+  }
+  match = /^\s*class\s+([A-Za-z_]\w*)/.exec(line);
+  if (match) {
+    return { name: match[1], kind: 'class', exported: !match[1].startsWith('_') };
+  }
+  // Module-level UPPER_CASE assignments are constants by convention
+  match = /^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/.exec(line);
+  if (match && topLevel) {
+    return { name: match[1], kind: 'constant', exported: true };
+  }
+  return null;
+}
+
+function matchGo(line: string): Declaration | null {
+  const isExported = (name: string) => /^[A-Z]/.test(name);
+  let match = /^func\s+\(\s*\w*\s*\*?\s*([A-Za-z_]\w*)[^)]*\)\s*([A-Za-z_]\w*)/.exec(line);
+  if (match) {
+    return { name: match[2], kind: 'method', container: match[1], exported: isExported(match[2]) };
+  }
+  match = /^func\s+([A-Za-z_]\w*)/.exec(line);
+  if (match) {
+    return { name: match[1], kind: 'function', exported: isExported(match[1]) };
+  }
+  match = /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)?/.exec(line);
+  if (match) {
+    const kind = match[2] === 'struct' ? 'struct' : match[2] === 'interface' ? 'interface' : 'type';
+    return { name: match[1], kind, exported: isExported(match[1]) };
+  }
+  match = /^(?:const|var)\s+([A-Z]\w*)/.exec(line);
+  if (match) {
+    return { name: match[1], kind: 'constant', exported: true };
+  }
+  return null;
+}
+
+function matchRust(line: string, container: Container | undefined): Declaration | null {
+  const visibility = String.raw`(pub(?:\([^)]*\))?\s+)?`;
+  let match = new RegExp(String.raw`^\s*${visibility}(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+(?:"[^"]*"\s*)?)?fn\s+([A-Za-z_]\w*)`).exec(line);
+  if (match) {
+    const isMethod = container?.kind === 'impl' || container?.kind === 'trait';
+    return {
+      name: match[2],
+      kind: isMethod ? 'method' : 'function',
+      container: isMethod ? container.name : null,
+      exported: !!match[1]
+    };
+  }
+  match = new RegExp(String.raw`^\s*${visibility}(struct|enum|trait|union)\s+([A-Za-z_]\w*)`).exec(line);
+  if (match) {
+    const kind = match[2] === 'union' ? 'struct' : (match[2] as SymbolKind);
+    return { name: match[3], kind, exported: !!match[1] };
+  }
+  match = new RegExp(String.raw`^\s*${visibility}type\s+([A-Za-z_]\w*)`).exec(line);
+  if (match) {
+    return { name: match[2], kind: 'type', exported: !!match[1] };
+  }
+  match = new RegExp(String.raw`^\s*${visibility}(?:const|static)\s+(?:mut\s+)?([A-Za-z_]\w*)\s*:`).exec(line);
+  if (match) {
+    return { name: match[2], kind: 'constant', container: container?.name ?? null, exported: !!match[1] };
+  }
+  match = /^\s*(?:unsafe\s+)?impl\b(?:\s*<[^{]*?>)?\s+(?:[\w:]+(?:<[^{]*?>)?\s+for\s+)?(?:[\w]+::)*([A-Za-z_]\w*)/.exec(line);
+  if (match) {
+    return { name: match[1], kind: 'impl', exported: false };
+  }
+  return null;
+}
+
+function matchJava(line: string, container: Container | undefined): Declaration | null {
+  const modifiers = String.raw`((?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default|transient|volatile)\s+)*)`;
+  let match = new RegExp(String.raw`^\s*(?:@\w+(?:\([^)]*\))?\s+)*${modifiers}(class|interface|enum|record|@interface)\s+([A-Za-z_]\w*)`).exec(line);
+  if (match) {
+    const kind = match[2] === 'class' || match[2] === 'record' ? 'class' : match[2] === 'enum' ? 'enum' : 'interface';
+    return { name: match[3], kind, container: container?.name ?? null, exported: /\bpublic\b/.test(match[1]) };
+  }
+  if (!container) {
+    return null;
+  }
+  match = new RegExp(String.raw`^\s*${modifiers}[\w.<>\[\], ?]+\s+([A-Z][A-Z0-9_]*)\s*=`).exec(line);
+  if (match && /\bstatic\b/.test(match[1]) && /\bfinal\b/.test(match[1])) {
+    return { name: match[2], kind: 'constant', container: container.name, exported: /\bpublic\b/.test(match[1]) };
+  }
+  match = new RegExp(String.raw`^\s*${modifiers}(?:<[^>]+>\s+)?(?:[\w.<>\[\], ?]+\s+)?([A-Za-z_]\w*)\s*\(`).exec(line);
+  if (match && !CONTROL_KEYWORDS.has(match[2]) && !/=/.test(line.slice(0, line.indexOf('(')))) {
+    return { name: match[2], kind: 'method', container: container.name, exported: /\bpublic\b/.test(match[1]) };
+  }
+  return null;
+}
+
+/**
+ * Extract top-level declarations and class members from a source file with
+ * per-language line patterns. Returns an empty list for unsupported languages.
+ */
+export function extractSymbols(filePath: string, contents: string): ExtractedSymbol[] {
+  const language = symbolLanguage(filePath);
+  if (!language) {
+    return [];
+  }
+
+  const lines = contents.split(/\r?\n/);
+  const code = stripCode(lines, language);
+  const symbols: ExtractedSymbol[] = [];
+  const containers: Container[] = [];
+
+  for (let i = 0; i < lines.length; i += 1) {
+    if (!code[i].trim()) {
+      continue;
+    }
+    while (containers.length && i > containers[containers.length - 1].endLine) {
+      containers.pop();
+    }
+    const container = containers[containers.length - 1];
+    const topLevel = containers.length === 0 && indentOf(lines[i]) === 0;
+
+    let declaration: Declaration | null;
+    switch (language) {
+      case 'typescript':
+        declaration = matchTypeScript(code[i], container, topLevel);
+        break;
+      case 'python':
+        declaration = matchPython(code[i], container, topLevel);
+        break;
+      case 'go':
+        declaration = matchGo(code[i]);
+        break;
+      case 'rust':
+        declaration = matchRust(code[i], container);
+        break;
+      case 'java':
+        declaration = matchJava(code[i], container);
+        break;
+    }
+    if (!declaration) {
+      continue;
+    }
+
+    const endLine = language === 'python' ? indentBlockEnd(lines, i) : braceBlockEnd(code, i);
+    const isContainer = ['class', 'interface', 'trait', 'impl', 'struct', 'enum'].includes(declaration.kind);
+    if (isContainer && endLine > i) {
+      containers.push({ name: declaration.name, kind: declaration.kind, endLine });
+    }
+    if (declaration.kind === 'impl') {
+      continue;
+    }
+
+    symbols.push({
+      name: declaration.name,
+      kind: declaration.kind,
+      container: declaration.container !== undefined ? declaration.container : container?.name ?? null,
+      startLine: i + 1,
+      endLine: endLine + 1,
+      exported: declaration.exported
+    });
+  }
+
+  return symbols;
+}
+
+/**
+ * Rank a symbol name against a query: exact, then case-insensitive exact, prefix,
+ * substring and finally in-order subsequence matches. Returns 0 for no match.
+ */
+function fuzzyScore(name: string, query: string): number {
+  if (name === query) {
+    return 1000;
+  }
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  if (lowerName === lowerQuery) {
+    return 900;
+  }
+  if (lowerName.startsWith(lowerQuery)) {
+    return 800 - (name.length - query.length);
+  }
+  const index = lowerName.indexOf(lowerQuery);
+  if (index >= 0) {
+    return 600 - index - (name.length - query.length);
+  }
+
+  let position = -1;
+  let first = -1;
+  for (const ch of lowerQuery) {
+    position = lowerName.indexOf(ch, position + 1);
+    if (position < 0) {
+      return 0;
+    }
+    if (first < 0) {
+      first = position;
+    }
+  }
+  return Math.max(1, 400 - (position - first + 1 - query.length) - first);
+}
+
+function toSymbolRecord(row: SymbolRow): SymbolRecord {
+  return {
+    repo: row.repo,
+    path: row.path,
+    name: row.name,
+    kind: row.kind,
+    container: row.container,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    exported: row.exported === 1
+  };
+}
+
+/**
+ * List symbols, or fuzzy-search them by name when `query` is given.
+ */
+export async function findSymbols(query: string | undefined, options: SymbolQueryOptions = {}): Promise<SymbolRecord[]> {
+  const db = await getSqliteDb();
+  const limit = options.limit ?? DEFAULT_SYMBOL_LIMIT;
+
+  const filters: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (options.repo) {
+    filters.push('repo = ?');
+    params.push(options.repo);
+  }
+  if (options.kinds?.length) {
+    filters.push(`kind IN (${options.kinds.map(() => '?').join(', ')})`);
+    params.push(...options.kinds);
+  }
+  if (query && options.exact) {
+    filters.push('name = ?');
+    params.push(query);
+  } else if (query) {
+    // Every query character in order; fuzzyScore does the ranking
+    filters.push("name LIKE ? ESCAPE '\\'");
+    params.push(`%${Array.from(query).map(escapeLikePattern).join('%')}%`);
+  }
+
+  const where = filters.length ? `WHERE ${filters.join(' AND ')}` : '';
+  const sql = `
+    SELECT repo, path, name, kind, container, start_line, end_line, exported
+    FROM symbols
+    ${where}
+    ORDER BY repo, path, start_line
+  `;
+
+  if (!query || options.exact) {
+    const rows = db.prepare(`${sql} LIMIT ?`).all(...params, limit) as SymbolRow[];
+    return rows.map(toSymbolRecord);
+  }
+
+  const rows = db.prepare(sql).all(...params) as SymbolRow[];
+  return rows
+    .map((row) => ({ row, score: fuzzyScore(row.name, query) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || Number(b.row.exported) - Number(a.row.exported) || a.row.name.length - b.row.name.length)
+    .slice(0, limit)
+    .map((entry) => toSymbolRecord(entry.row));
+}
+
+/**
+ * Definition sites of `name` across repositories. `Container.name` (or
+ * `Container::name`) only matches members of that container. Exported
+ * symbols come first.
+ */
+export async function findDefinitions(name: string, options: Omit<SymbolQueryOptions, 'exact'> = {}): Promise<SymbolRecord[]> {
+  const db = await getSqliteDb();
+  const separator = /(?:\.|::)(?=[^.:]+$)/.exec(name);
+  const symbolName = separator ? name.slice(separator.index + separator[0].length) : name;
+  const container = separator ? name.slice(0, separator.index) : null;
+
+  const filters = ['name = ?'];
+  const params: Array<string | number> = [symbolName];
+
+  if (container) {
+    filters.push('container = ?');
+    params.push(container);
+  }
+  if (options.repo) {
+    filters.push('repo = ?');
+    params.push(options.repo);
+  }
+  if (options.kinds?.length) {
+    filters.push(`kind IN (${options.kinds.map(() => '?').join(', ')})`);
+    params.push(...options.kinds);
+  }
+
+  const rows = db
+    .prepare(`
+      SELECT repo, path, name, kind, container, start_line, end_line, exported
+      FROM symbols
+      WHERE ${filters.join(' AND ')}
+      ORDER BY exported DESC, repo, path, start_line
+      LIMIT ?
+    `)
+    .all(...params, options.limit ?? DEFAULT_SYMBOL_LIMIT) as SymbolRow[];
+
+  return rows.map(toSymbolRecord);
+}
@@ -3,11 +3,28 @@ import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 
-export const DATA_DIR = path.join(os.homedir(), '.repogrep');
-export const RSEARCH_DIR = path.join(DATA_DIR, '.rsearch');
-export const SQLITE_DB_PATH = path.join(RSEARCH_DIR, 'search.sqlite');
-export const VECTORS_DIR = path.join(RSEARCH_DIR, 'vectors');
-export const REPOS_DIR = path.join(DATA_DIR, 'repos');
+export const DEFAULT_DATA_DIR = process.env.REPOGREP_HOME ? path.resolve(process.env.REPOGREP_HOME) : path.join(os.homedir(), '.repogrep');
+
+// Data paths are live bindings so `setDataDir` can point the whole process elsewhere
+export let DATA_DIR = DEFAULT_DATA_DIR;
+export let RSEARCH_DIR = path.join(DATA_DIR, '.rsearch');
+export let SQLITE_DB_PATH = path.join(RSEARCH_DIR, 'search.sqlite');
+export let VECTORS_DIR = path.join(RSEARCH_DIR, 'vectors');
+export let REPOS_DIR = path.join(DATA_DIR, 'repos');
+export let SERVER_INFO_PATH = path.join(RSEARCH_DIR, 'server.json');
+
+/**
+ * Move every data path under `dataDir`. Open database handles keep pointing at
+ * the old location; close them first (see `closeDatabases` in db.ts).
+ */
+export function setDataDir(dataDir: string): void {
+  DATA_DIR = path.resolve(dataDir);
+  RSEARCH_DIR = path.join(DATA_DIR, '.rsearch');
+  SQLITE_DB_PATH = path.join(RSEARCH_DIR, 'search.sqlite');
+  VECTORS_DIR = path.join(RSEARCH_DIR, 'vectors');
+  REPOS_DIR = path.join(DATA_DIR, 'repos');
+  SERVER_INFO_PATH = path.join(RSEARCH_DIR, 'server.json');
+}
 
 export const DEFAULT_IGNORE_PATTERNS = [
   '**/node_modules/**',
@@ -134,7 +151,7 @@ export const DEFAULT_IGNORE_PATTERNS = [
   '**/*.ppt'
 ];
 
-export const MAX_INDEXED_BYTES = 64 * 1024; // 64KB per file
+export const MAX_INDEXED_BYTES = 1024 * 1024; // larger files are not indexed
 
 export async function ensureDir(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
@@ -236,6 +253,97 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Map over items with at most `concurrency` promises in flight, preserving order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * FIFO queue with a fixed capacity for handing work between pipeline stages:
+ * `push` waits while the queue is full and `shift` waits while it is empty.
+ * After `close`, `shift` drains what is left and then returns undefined;
+ * after `fail`, both reject with the error so every stage stops.
+ */
+export class BoundedQueue<T> {
+  private readonly items: T[] = [];
+  private waiters: Array<() => void> = [];
+  private closed = false;
+  private failure: { error: unknown } | null = null;
+
+  constructor(private readonly capacity: number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  async push(item: T): Promise<void> {
+    while (this.items.length >= this.capacity && !this.closed && !this.failure) {
+      await this.wait();
+    }
+    if (this.failure) {
+      throw this.failure.error;
+    }
+    if (this.closed) {
+      throw new Error('Cannot push to a closed queue');
+    }
+    this.items.push(item);
+    this.wake();
+  }
+
+  async shift(): Promise<T | undefined> {
+    while (!this.items.length && !this.closed && !this.failure) {
+      await this.wait();
+    }
+    if (this.failure) {
+      throw this.failure.error;
+    }
+    const item = this.items.shift();
+    this.wake();
+    return item;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.wake();
+  }
+
+  fail(error: unknown): void {
+    this.failure ??= { error };
+    this.wake();
+  }
+
+  private wait(): Promise<void> {
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
+
 export function parseRepoPath(input: string): { repo: string; path: string } {
   const firstSlash = input.indexOf('/');
   if (firstSlash === -1) {
@@ -247,10 +355,29 @@ export function parseRepoPath(input: string): { repo: string; path: string } {
   };
 }
 
+/**
+ * Quote a value for a string literal in a LanceDB filter. Its literals keep
+ * backslashes as they are, so only quotes need doubling.
+ */
+export function escapeFilterValue(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Escape `%`, `_` and `\` so they match themselves in a LIKE pattern used
+ * with `ESCAPE '\'` (LanceDB filters escape with a backslash by default).
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Convert a glob to a LIKE pattern for use with `ESCAPE '\'`; `%` and `_`
+ * in the glob match literally.
+ */
 export function globToSqlPattern(glob: string): string {
-  // Convert glob patterns to SQL LIKE patterns
   // ** -> %, * -> %, ? -> _
-  let pattern = glob;
+  let pattern = escapeLikePattern(glob);
   
   // Handle leading **/ (match any directory depth)
   pattern = pattern.replace(/^\*\*\//, '%/');
@@ -273,60 +400,73 @@ export function globToSqlPattern(glob: string): string {
   return pattern;
 }
 
-export function formatLineNumber(line: number, width: number = 6): string {
-  return line.toString().padStart(width, ' ');
+export function hasGlobChars(value: string): boolean {
+  return /[*?[\]]/.test(value);
 }
 
-export async function loadGitignorePatterns(repoPath: string): Promise<string[]> {
-  const gitignorePath = path.join(repoPath, '.gitignore');
-  
-  if (!(await fileExists(gitignorePath))) {
-    return [];
-  }
-  
-  try {
-    const content = await fs.readFile(gitignorePath, 'utf-8');
-    const lines = content.split('\n');
-    const patterns: string[] = [];
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith('#')) {
-        continue;
-      }
-      
-      let pattern = trimmed.replace(/\\/g, '/');
-      
-      const isNegation = pattern.startsWith('!');
-      if (isNegation) {
-        pattern = pattern.slice(1);
-      }
-      
-      const isRootRelative = pattern.startsWith('/');
-      if (isRootRelative) {
-        pattern = pattern.slice(1);
-      }
-      
-      const isDirectory = pattern.endsWith('/');
-      if (isDirectory) {
-        pattern = pattern.slice(0, -1);
-        pattern = `${pattern}/**`;
-      }
-      
-      if (!isRootRelative) {
-        pattern = `**/${pattern}`;
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globSource(glob)}$`);
+}
+
+function globSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*' && glob[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (glob[i + 1] === '*') {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
       }
-      
-      if (pattern) {
-        if (isNegation) {
-          pattern = `!${pattern}`;
-        }
-        patterns.push(pattern);
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = close;
       }
+    } else if (char === '{' && glob.indexOf('}', i + 1) !== -1) {
+      // "{ts,tsx}" matches any one of the alternatives
+      const close = glob.indexOf('}', i + 1);
+      source += `(?:${glob.slice(i + 1, close).split(',').map(globSource).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
     }
-    
-    return patterns;
+  }
+  return source;
+}
+
+export async function directorySize(dirPath: string): Promise<number> {
+  let total = 0;
+  let entries;
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
   } catch {
-    return [];
+    return 0;
   }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else {
+      const stats = await fs.lstat(entryPath);
+      total += stats.size;
+    }
+  }
+  return total;
+}
+
+export function formatLineNumber(line: number, width: number = 6): string {
+  return line.toString().padStart(width, ' ');
 }
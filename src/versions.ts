@@ -0,0 +1,80 @@
+import { listRepoIndex } from './db.js';
+
+/** Separates a repository name from its version in identities like `owner-repo@v3.1.0`. */
+export const VERSION_SEPARATOR = '@';
+/** Selector suffix matching every indexed version of a repository. */
+export const ALL_VERSIONS = '*';
+/** Selector suffix matching the highest indexed version of a repository. */
+export const LATEST_VERSION = 'latest';
+
+export interface RepoVersion {
+  base: string;
+  version: string | null;
+}
+
+/**
+ * Name for a side-by-side checkout of `ref`, e.g. `owner-repo@v3.1.0`.
+ * Characters that cannot appear in a directory name become `-`.
+ */
+export function versionedRepoName(base: string, ref: string): string {
+  const version = ref.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  if (!version) {
+    throw new Error(`Cannot derive a version name from ref "${ref}"`);
+  }
+  return `${base}${VERSION_SEPARATOR}${version}`;
+}
+
+export function parseRepoVersion(repo: string): RepoVersion {
+  const index = repo.lastIndexOf(VERSION_SEPARATOR);
+  if (index <= 0) {
+    return { base: repo, version: null };
+  }
+  return { base: repo.slice(0, index), version: repo.slice(index + 1) };
+}
+
+/**
+ * Order version strings naturally, so `v3.10.0` sorts after `v3.9.2`.
+ */
+export function compareVersions(a: string, b: string): number {
+  return a.replace(/^v/i, '').localeCompare(b.replace(/^v/i, ''), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Expand repository selectors into indexed repository names:
+ * - `name` or `name@version` matches that repository
+ * - `name@*` matches `name` and every `name@<version>`
+ * - `name@latest` matches the highest `name@<version>`, or `name` when no versions exist
+ *
+ * An exact repository name always wins, and selectors that match nothing are
+ * kept as-is so they still filter everything out.
+ */
+export async function expandRepoSelectors(selectors: string[]): Promise<string[]> {
+  const repos = (await listRepoIndex()).map((row) => row.repo);
+  const known = new Set(repos);
+  const expanded = new Set<string>();
+
+  for (const selector of selectors) {
+    const { base, version } = parseRepoVersion(selector);
+    if (known.has(selector) || (version !== ALL_VERSIONS && version !== LATEST_VERSION)) {
+      expanded.add(selector);
+      continue;
+    }
+
+    const versions = repos.filter((repo) => parseRepoVersion(repo).base === base && parseRepoVersion(repo).version !== null);
+    let matches: string[];
+    if (version === ALL_VERSIONS) {
+      matches = known.has(base) ? [base, ...versions] : versions;
+    } else {
+      const latest = versions.sort((a, b) => compareVersions(parseRepoVersion(b).version ?? '', parseRepoVersion(a).version ?? ''))[0];
+      matches = latest ? [latest] : known.has(base) ? [base] : [];
+    }
+
+    if (matches.length) {
+      matches.forEach((repo) => expanded.add(repo));
+    } else {
+      expanded.add(selector);
+    }
+  }
+
+  return Array.from(expanded);
+}
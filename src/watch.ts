@@ -0,0 +1,207 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { indexRepository, type IndexOptions, type IndexSummary } from './indexer.js';
+import { REPO_CONFIG_FILE, REPO_IGNORE_FILE, resolveIndexFilters } from './config.js';
+import { createIgnoreMatcher, walkDirectories } from './ignore.js';
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 500;
+
+export interface WatchOptions extends Omit<IndexOptions, 'paths' | 'progress'> {
+  debounceMs?: number;
+  onBatch?: (summary: IndexSummary, paths: string[]) => void;
+  /** Called when a batch or the watcher fails (default: log to stderr). Watching goes on. */
+  onError?: (error: Error) => void;
+}
+
+export interface RepositoryWatcher {
+  close(): void;
+}
+
+// Changes to these files at the root alter what is indexed anywhere
+const ROOT_FILTER_FILES = new Set([REPO_IGNORE_FILE, REPO_CONFIG_FILE]);
+
+/**
+ * Scope of a batch: the changed paths that are not ignored, with a changed
+ * `.gitignore` standing for its whole directory. Null means the whole
+ * repository, as after a change to `.repogreprc`.
+ */
+async function batchScope(repoPath: string, options: WatchOptions, paths: string[]): Promise<string[] | null> {
+  if (paths.some((entry) => ROOT_FILTER_FILES.has(entry) || entry === '.gitignore')) {
+    return null;
+  }
+
+  const filters = await resolveIndexFilters(repoPath, options);
+  const matcher = await createIgnoreMatcher(repoPath, { globs: filters.ignore, gitignore: !filters.gitFiles });
+  const scope: string[] = [];
+  for (const entry of paths) {
+    const parent = path.posix.dirname(entry) === '.' ? '' : path.posix.dirname(entry);
+    await matcher.loadDirectories(parent);
+    if (path.posix.basename(entry) === '.gitignore') {
+      if (!matcher.ignores(parent, true)) {
+        scope.push(parent);
+      }
+      continue;
+    }
+    // Deleted paths stay in scope unless ignored, so their records are removed
+    const stats = await fs.promises.stat(path.join(repoPath, entry)).catch(() => null);
+    if (!matcher.ignores(entry, stats?.isDirectory() ?? false)) {
+      scope.push(entry);
+    }
+  }
+  return scope;
+}
+
+/**
+ * Watch a local repository and re-index only the paths that change.
+ * Events are debounced into batches, and batches never overlap: changes that
+ * arrive while a batch is indexing are collected into the next one.
+ * Each directory the index keeps gets its own watcher, so ignored trees such
+ * as `node_modules` or `.git` are never watched.
+ */
+export async function watchRepository(repoPath: string, options: WatchOptions = {}): Promise<RepositoryWatcher> {
+  const debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let closed = false;
+
+  const reportError = (error: unknown) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    // Never throw from here: it runs in timer and watcher callbacks
+    try {
+      (options.onError ?? ((failure: Error) => console.error(`repogrep watch: ${failure.message}`)))(err);
+    } catch (handlerError) {
+      console.error(handlerError);
+    }
+  };
+
+  // Watchers by directory relative to the root ('' for the root itself)
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const unwatch = (directory: string) => {
+    watchers.get(directory)?.close();
+    watchers.delete(directory);
+  };
+
+  const watchDirectory = (directory: string) => {
+    if (watchers.has(directory) || closed) {
+      return;
+    }
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(path.join(repoPath, directory), (_event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const name = filename.toString();
+        pending.add(directory ? `${directory}/${name}` : name);
+        schedule();
+      });
+    } catch {
+      // Removed before we got to it; its parent's event covers the removal
+      return;
+    }
+    watcher.on('error', (error: NodeJS.ErrnoException) => {
+      unwatch(directory);
+      if (error.code !== 'ENOENT' && error.code !== 'EPERM') {
+        reportError(error);
+      }
+    });
+    watchers.set(directory, watcher);
+  };
+
+  /**
+   * Watch the kept directories below each of `directories`, and stop watching
+   * the ones below them that were removed or are now ignored.
+   */
+  const rewatch = async (directories: string[]) => {
+    const filters = await resolveIndexFilters(repoPath, options);
+    const matcher = await createIgnoreMatcher(repoPath, { globs: filters.ignore, gitignore: !filters.gitFiles });
+    for (const startDir of directories) {
+      await matcher.loadDirectories(startDir);
+      const kept = startDir && matcher.ignores(startDir, true) ? [] : await walkDirectories(repoPath, matcher, startDir);
+      const keptSet = new Set(kept);
+      for (const directory of Array.from(watchers.keys())) {
+        const below = !startDir || directory === startDir || directory.startsWith(`${startDir}/`);
+        if (below && !keptSet.has(directory)) {
+          unwatch(directory);
+        }
+      }
+      kept.forEach(watchDirectory);
+    }
+  };
+
+  /** Changed paths that may add or drop watched directories. */
+  const changedDirectories = async (paths: string[]): Promise<string[]> => {
+    const directories: string[] = [];
+    for (const entry of paths) {
+      if (path.posix.basename(entry) === '.gitignore') {
+        directories.push(path.posix.dirname(entry) === '.' ? '' : path.posix.dirname(entry));
+        continue;
+      }
+      const stats = await fs.promises.stat(path.join(repoPath, entry)).catch(() => null);
+      if (watchers.has(entry) || stats?.isDirectory()) {
+        directories.push(entry);
+      }
+    }
+    return directories;
+  };
+
+  const flush = async () => {
+    timer = null;
+    if (running || closed || !pending.size) {
+      return;
+    }
+
+    running = true;
+    const paths = Array.from(pending).sort();
+    pending.clear();
+
+    try {
+      const scope = await batchScope(repoPath, options, paths);
+      await rewatch(scope ? await changedDirectories(paths) : ['']);
+      if (scope && !scope.length) {
+        return;
+      }
+      const summary = await indexRepository(repoPath, {
+        ...options,
+        paths: scope ?? undefined,
+        progress: false
+      });
+      options.onBatch?.(summary, scope ?? paths);
+    } catch (error) {
+      reportError(error);
+    } finally {
+      running = false;
+      if (pending.size && !closed) {
+        schedule();
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      void flush();
+    }, debounceMs);
+  };
+
+  await rewatch(['']);
+
+  return {
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      for (const directory of Array.from(watchers.keys())) {
+        unwatch(directory);
+      }
+    }
+  };
+}